@@ -1,6 +1,11 @@
 const express = require('express');
 const axios = require('axios');
 const https = require('https');
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+const { Database } = require('bun:sqlite');
+const YAML = require('yaml');
 
 // Carrega .env apenas se não estiver usando Docker
 if (!process.env.DOCKER_ENV) {
@@ -17,7 +22,17 @@ const PORTAINER_USERNAME = process.env.PORTAINER_USERNAME || 'admin';
 const PORTAINER_PASSWORD = process.env.PORTAINER_PASSWORD || '';
 const PORTAINER_ENDPOINT_ID = parseInt(process.env.PORTAINER_ENDPOINT_ID) || 1;
 const AUTH_TOKEN = process.env.AUTH_TOKEN;
+const ALLOW_UNAUTHENTICATED = process.env.ALLOW_UNAUTHENTICATED === 'true';
 const DOMAIN = process.env.DOMAIN;
+const DATA_DIR = process.env.DATA_DIR || './data';
+const TEMPLATES_DIR = process.env.TEMPLATES_DIR || './templates';
+const PLANS_FILE = process.env.PLANS_FILE || './planos.yaml';
+const PORTAINER_STACK_TIMEOUT_MS = Number(process.env.PORTAINER_STACK_TIMEOUT_MS) || 120000;
+const CONVERGENCE_TIMEOUT_MS = Number(process.env.CONVERGENCE_TIMEOUT_MS) || 180000;
+const CONVERGENCE_INTERVAL_MS = Number(process.env.CONVERGENCE_INTERVAL_MS) || 5000;
+const WEBHOOK_MAX_ATTEMPTS = Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 6;
+const WEBHOOK_RETRY_BASE_MS = Number(process.env.WEBHOOK_RETRY_BASE_MS) || 30000;
+const WEBHOOK_TIMEOUT_MS = Number(process.env.WEBHOOK_TIMEOUT_MS) || 10000;
 
 // Cloudflare
 const CLOUDFLARE_API_TOKEN = process.env.CLOUDFLARE_API_TOKEN ;
@@ -25,15 +40,287 @@ const CLOUDFLARE_ZONE_ID = process.env.CLOUDFLARE_ZONE_ID;
 const CLOUDFLARE_DOMAIN = process.env.CLOUDFLARE_DOMAIN;
 const CLOUDFLARE_ACCOUNT_ID = process.env.CLOUDFLARE_ACCOUNT_ID;
 const CLOUDFLARE_TUNNEL_ID = process.env.CLOUDFLARE_TUNNEL_ID;
+// Serviço do túnel que responde pelos hostnames de tenants suspensos (ex: http://pagina-suspensa:80)
+const SUSPENDED_SERVICE_URL = process.env.SUSPENDED_SERVICE_URL;
 
 const httpsAgent = new https.Agent({ rejectUnauthorized: false });
 
+// 📈 Métricas Prometheus (formato texto) em GET /metrics
+// Registro simples em memória: contadores e histogramas com labels; zera quando o processo reinicia
+const HTTP_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+const PROVISIONING_BUCKETS = [5, 10, 30, 60, 120, 300, 600, 1200];
+
+const metrics = new Map();
+
+const defineCounter = (nome, ajuda) => {
+  metrics.set(nome, { tipo: 'counter', ajuda, series: new Map() });
+};
+
+const defineHistogram = (nome, ajuda, buckets) => {
+  metrics.set(nome, { tipo: 'histogram', ajuda, buckets, series: new Map() });
+};
+
+defineCounter('stackflow_http_requests_total', 'Requisições HTTP recebidas por rota e status');
+defineHistogram('stackflow_http_request_duration_seconds', 'Duração das requisições HTTP por rota', HTTP_BUCKETS);
+defineHistogram('stackflow_upstream_request_duration_seconds', 'Duração das chamadas ao Portainer e à Cloudflare', HTTP_BUCKETS);
+defineCounter('stackflow_upstream_errors_total', 'Chamadas ao Portainer e à Cloudflare com erro 5xx ou sem resposta, por status');
+defineCounter('stackflow_portainer_auth_total', 'Autenticações (renovações de JWT) no Portainer');
+defineHistogram('stackflow_provisioning_duration_seconds', 'Duração dos jobs de provisionamento por tipo de stack', PROVISIONING_BUCKETS);
+defineCounter('stackflow_stacks_created_total', 'Stacks criadas: confirmado ou criado (não confirmado no Portainer)');
+
+const getMetricSeries = (nome, labels) => {
+  const metric = metrics.get(nome);
+  const key = JSON.stringify(Object.entries(labels).sort());
+
+  if (!metric.series.has(key)) {
+    metric.series.set(key, metric.tipo === 'histogram'
+      ? { labels, buckets: metric.buckets.map(() => 0), sum: 0, count: 0 }
+      : { labels, value: 0 });
+  }
+  return { metric, series: metric.series.get(key) };
+};
+
+const incrementCounter = (nome, labels = {}, value = 1) => {
+  getMetricSeries(nome, labels).series.value += value;
+};
+
+const observeHistogram = (nome, labels, value) => {
+  const { metric, series } = getMetricSeries(nome, labels);
+  metric.buckets.forEach((bucket, index) => {
+    if (value <= bucket) series.buckets[index] += 1;
+  });
+  series.sum += value;
+  series.count += 1;
+};
+
+const formatLabels = (labels) => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  const escape = (value) => String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',')}}`;
+};
+
+const renderMetrics = () => {
+  const lines = [];
+
+  for (const [nome, metric] of metrics) {
+    lines.push(`# HELP ${nome} ${metric.ajuda}`, `# TYPE ${nome} ${metric.tipo}`);
+
+    for (const series of metric.series.values()) {
+      if (metric.tipo !== 'histogram') {
+        lines.push(`${nome}${formatLabels(series.labels)} ${series.value}`);
+        continue;
+      }
+      metric.buckets.forEach((bucket, index) => {
+        lines.push(`${nome}_bucket${formatLabels({ ...series.labels, le: bucket })} ${series.buckets[index]}`);
+      });
+      lines.push(`${nome}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+      lines.push(`${nome}_sum${formatLabels(series.labels)} ${series.sum}`);
+      lines.push(`${nome}_count${formatLabels(series.labels)} ${series.count}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+};
+
+// Rota no formato do Express (/api/stack/:nome) para não criar uma série por tenant
+app.use((req, res, next) => {
+  const startedAt = process.hrtime.bigint();
+
+  res.on('finish', () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : 'nao_encontrada';
+    const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9;
+
+    incrementCounter('stackflow_http_requests_total', { method: req.method, route, status: res.statusCode });
+    observeHistogram('stackflow_http_request_duration_seconds', { method: req.method, route }, seconds);
+  });
+
+  next();
+});
+
+// Todas as chamadas externas passam pelo axios padrão: os interceptors medem Portainer e Cloudflare
+const getUpstreamName = (url = '') => {
+  if (url.startsWith(PORTAINER_URL)) return 'portainer';
+  if (url.includes('api.cloudflare.com')) return 'cloudflare';
+  return 'outro';
+};
+
+const observeUpstream = (config, status) => {
+  if (!config?.metadata) return;
+  const labels = { servico: getUpstreamName(config.url), method: String(config.method).toUpperCase() };
+  observeHistogram('stackflow_upstream_request_duration_seconds', labels, (Date.now() - config.metadata.inicio) / 1000);
+  if (status) incrementCounter('stackflow_upstream_errors_total', { servico: labels.servico, status });
+};
+
+axios.interceptors.request.use((config) => {
+  config.metadata = { inicio: Date.now() };
+  return config;
+});
+
+axios.interceptors.response.use(
+  (response) => {
+    observeUpstream(response.config, null);
+    return response;
+  },
+  (error) => {
+    // Só 5xx conta como erro: 4xx (ex: 404 ao checar se um recurso existe) faz parte do fluxo normal
+    // Sem resposta (timeout, conexão recusada) o status vira o código do erro
+    const status = error.response?.status;
+    observeUpstream(error.config, status ? (status >= 500 ? status : null) : error.code || 'erro');
+    return Promise.reject(error);
+  }
+);
+
 // Cache do JWT (em memória)
 let jwtCache = {
   token: null,
   expiresAt: null
 };
 
+// 💾 Banco local (SQLite via Bun) - histórico de jobs sobrevive a reinícios
+fs.mkdirSync(DATA_DIR, { recursive: true });
+const db = new Database(path.join(DATA_DIR, 'stackflow.db'), { create: true });
+db.exec('PRAGMA journal_mode = WAL;');
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS jobs (
+    id TEXT PRIMARY KEY,
+    tipo TEXT NOT NULL,
+    nome TEXT NOT NULL,
+    status TEXT NOT NULL,
+    etapas TEXT NOT NULL,
+    resultado TEXT,
+    erro TEXT,
+    criado_em TEXT NOT NULL,
+    atualizado_em TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_jobs_nome ON jobs (nome);
+
+  CREATE TABLE IF NOT EXISTS tenants (
+    nome TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    servicos TEXT NOT NULL,
+    segredos TEXT,
+    suspensao TEXT,
+    criado_em TEXT NOT NULL,
+    atualizado_em TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS tenant_recursos (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    tenant TEXT NOT NULL,
+    tipo TEXT NOT NULL,
+    nome TEXT NOT NULL,
+    externo_id TEXT,
+    dados TEXT,
+    criado_em TEXT NOT NULL,
+    UNIQUE (tenant, tipo, nome)
+  );
+
+  CREATE TABLE IF NOT EXISTS webhooks (
+    id TEXT PRIMARY KEY,
+    url TEXT NOT NULL,
+    eventos TEXT NOT NULL,
+    segredo TEXT NOT NULL,
+    ativo INTEGER NOT NULL DEFAULT 1,
+    criado_em TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS webhook_entregas (
+    id TEXT PRIMARY KEY,
+    webhook_id TEXT NOT NULL,
+    evento TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL,
+    tentativas INTEGER NOT NULL DEFAULT 0,
+    proxima_tentativa TEXT,
+    ultimo_status INTEGER,
+    ultimo_erro TEXT,
+    criado_em TEXT NOT NULL,
+    atualizado_em TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_webhook_entregas_status ON webhook_entregas (status, proxima_tentativa);
+
+  CREATE TABLE IF NOT EXISTS api_keys (
+    id TEXT PRIMARY KEY,
+    nome TEXT NOT NULL,
+    prefixo TEXT NOT NULL,
+    hash TEXT NOT NULL UNIQUE,
+    escopos TEXT NOT NULL,
+    expira_em TEXT,
+    tenants TEXT,
+    ultimo_uso TEXT,
+    criado_em TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS auditoria (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    criado_em TEXT NOT NULL,
+    ator TEXT NOT NULL,
+    ator_id TEXT,
+    acao TEXT NOT NULL,
+    metodo TEXT,
+    rota TEXT,
+    tenant TEXT,
+    resumo TEXT,
+    recursos TEXT,
+    resultado TEXT NOT NULL,
+    status INTEGER,
+    duracao_ms INTEGER,
+    job_id TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_auditoria_tenant ON auditoria (tenant, criado_em);
+  CREATE INDEX IF NOT EXISTS idx_auditoria_criado_em ON auditoria (criado_em);
+
+  -- Auditoria é somente inclusão
+  CREATE TRIGGER IF NOT EXISTS auditoria_sem_update BEFORE UPDATE ON auditoria
+  BEGIN SELECT RAISE(ABORT, 'auditoria é somente inclusão'); END;
+  CREATE TRIGGER IF NOT EXISTS auditoria_sem_delete BEFORE DELETE ON auditoria
+  BEGIN SELECT RAISE(ABORT, 'auditoria é somente inclusão'); END;
+`);
+
+// Bancos criados antes da suspensão de tenants não têm a coluna
+if (!db.query('PRAGMA table_info(tenants)').all().some(column => column.name === 'suspensao')) {
+  db.exec('ALTER TABLE tenants ADD COLUMN suspensao TEXT');
+}
+
+// Bancos criados antes das chaves vinculadas a tenants não têm a coluna
+if (!db.query('PRAGMA table_info(api_keys)').all().some(column => column.name === 'tenants')) {
+  db.exec('ALTER TABLE api_keys ADD COLUMN tenants TEXT');
+}
+
+// 🔑 Criptografia de segredos em repouso (AES-256-GCM)
+// Usa STACKFLOW_SECRET_KEY; sem ela, gera uma chave em DATA_DIR/secret.key na primeira execução
+const loadSecretKey = () => {
+  if (process.env.STACKFLOW_SECRET_KEY) {
+    return crypto.createHash('sha256').update(process.env.STACKFLOW_SECRET_KEY).digest();
+  }
+
+  const keyFile = path.join(DATA_DIR, 'secret.key');
+  if (!fs.existsSync(keyFile)) {
+    console.log(`⚠️ STACKFLOW_SECRET_KEY não definida, gerando chave em ${keyFile}`);
+    fs.writeFileSync(keyFile, crypto.randomBytes(32).toString('hex'), { mode: 0o600 });
+  }
+  return crypto.createHash('sha256').update(fs.readFileSync(keyFile, 'utf8').trim()).digest();
+};
+
+const SECRET_KEY = loadSecretKey();
+
+const encryptSecret = (plaintext) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', SECRET_KEY, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return `v1:${iv.toString('base64')}:${tag.toString('base64')}:${encrypted.toString('base64')}`;
+};
+
+const decryptSecret = (payload) => {
+  const [, iv, tag, encrypted] = payload.split(':');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', SECRET_KEY, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64')), decipher.final()]).toString('utf8');
+};
+
 // ✅ Função para autenticar no Portainer e obter JWT
 const authenticatePortainer = async () => {
   try {
@@ -60,10 +347,12 @@ const authenticatePortainer = async () => {
     };
 
     console.log('✅ Autenticação bem-sucedida');
+    incrementCounter('stackflow_portainer_auth_total', { resultado: 'sucesso' });
     return jwt;
 
   } catch (error) {
     console.error('❌ Erro ao autenticar no Portainer:', error.response?.data || error.message);
+    incrementCounter('stackflow_portainer_auth_total', { resultado: 'erro' });
     throw new Error('Falha na autenticação do Portainer');
   }
 };
@@ -85,141 +374,474 @@ const getPortainerHeaders = async () => {
   };
 };
 
-// ✅ Função para criar/atualizar registro DNS na Cloudflare
-const createCloudflareRecord = async (nome, tipo, targetValue, proxied = true) => {
-  try {
-    if (!CLOUDFLARE_API_TOKEN || !CLOUDFLARE_ZONE_ID || !CLOUDFLARE_DOMAIN) {
-      throw new Error('Configurações da Cloudflare não definidas (API_TOKEN, ZONE_ID ou DOMAIN)');
-    }
+const getCloudflareHeaders = () => ({
+  'Authorization': `Bearer ${CLOUDFLARE_API_TOKEN}`,
+  'Content-Type': 'application/json'
+});
 
-    console.log('☁️ Criando registro DNS na Cloudflare...');
-    console.log(`📝 Tipo: ${tipo}, Nome: ${nome}, Target: ${targetValue}, Proxied: ${proxied}`);
+const getTunnelConfigUrl = () =>
+  `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/cfd_tunnel/${CLOUDFLARE_TUNNEL_ID}/configurations`;
 
-    const subdomain = `${nome}.${CLOUDFLARE_DOMAIN}`;
-    
-    const headers = {
-      'Authorization': `Bearer ${CLOUDFLARE_API_TOKEN}`,
-      'Content-Type': 'application/json'
-    };
+// Tipos aceitos em POST e DELETE /api/cloudflare
+const DNS_RECORD_TYPES = ['A', 'AAAA', 'CNAME', 'TXT', 'MX', 'SRV'];
+// Tipos que aceitam vários registros com o mesmo nome (TXT de verificação, MX, SRV)
+const DNS_MULTI_VALUE_TYPES = ['TXT', 'MX', 'SRV'];
 
-    const listResponse = await axios.get(
-      `https://api.cloudflare.com/client/v4/zones/${CLOUDFLARE_ZONE_ID}/dns_records?name=${subdomain}`,
-      { headers }
-    );
+// Opções de createCloudflareRecord: prioridade (MX e SRV), peso e porta (SRV)
+type CloudflareRecordOptions = {
+  ttl?: number;
+  prioridade?: number;
+  peso?: number;
+  porta?: number;
+  falharSeExistir?: boolean;
+};
 
-    const existingRecord = listResponse.data.result[0];
+// Corpo do registro na API da Cloudflare: MX leva priority e SRV leva data (prioridade, peso, porta, alvo).
+// Só A, AAAA e CNAME podem passar pelo proxy; ttl 1 = automático
+const buildCloudflareRecordData = (subdomain, tipo, targetValue, proxied, opcoes) => {
+  const { ttl = 1, prioridade, peso, porta } = opcoes;
 
-    const recordData = {
-      type: tipo,
-      name: subdomain,
-      content: targetValue,
-      ttl: 1,
-      proxied: proxied
-    };
+  return {
+    type: tipo,
+    name: subdomain,
+    ttl,
+    ...(tipo === 'SRV'
+      ? { data: { priority: prioridade, weight: peso, port: porta, target: targetValue } }
+      : { content: targetValue }),
+    ...(tipo === 'MX' ? { priority: prioridade } : {}),
+    ...(!DNS_MULTI_VALUE_TYPES.includes(tipo) ? { proxied } : {})
+  };
+};
 
-    if (existingRecord) {
-      console.log('🔄 Registro já existe, atualizando...');
-      
-      const updateResponse = await axios.put(
-        `https://api.cloudflare.com/client/v4/zones/${CLOUDFLARE_ZONE_ID}/dns_records/${existingRecord.id}`,
-        recordData,
-        { headers }
-      );
+// TXT e MX são o mesmo registro quando o conteúdo é igual; SRV quando alvo e porta são iguais
+const isSameRecordValue = (record, recordData) => recordData.type === 'SRV'
+  ? record.data?.target === recordData.data.target && record.data?.port === recordData.data.port
+  : record.content === recordData.content;
 
-      console.log('✅ Registro DNS atualizado na Cloudflare');
-      return updateResponse.data.result;
+const recordDiffers = (record, recordData) => Object.entries(recordData).some(([campo, valor]) =>
+  campo === 'data'
+    ? Object.entries(recordData.data).some(([chave, item]) => record.data?.[chave] !== item)
+    : record[campo] !== valor
+);
 
-    } else {
-      console.log('➕ Criando novo registro DNS...');
-      
-      const createResponse = await axios.post(
-        `https://api.cloudflare.com/client/v4/zones/${CLOUDFLARE_ZONE_ID}/dns_records`,
-        recordData,
-        { headers }
+// ✅ Função para planejar criação/atualização de registro DNS (somente leitura)
+// Retorna a ação ('criar' | 'atualizar'), o registro atual e a requisição que seria enviada.
+// A, AAAA e CNAME substituem o registro do mesmo nome; TXT, MX e SRV só atualizam o registro com o mesmo valor
+const planCloudflareRecord = async (nome, tipo, targetValue, proxied = true, opcoes = {}) => {
+  if (!CLOUDFLARE_API_TOKEN || !CLOUDFLARE_ZONE_ID || !CLOUDFLARE_DOMAIN) {
+    throw new Error('Configurações da Cloudflare não definidas (API_TOKEN, ZONE_ID ou DOMAIN)');
+  }
+
+  const subdomain = `${nome}.${CLOUDFLARE_DOMAIN}`;
+
+  const listResponse = await axios.get(
+    `https://api.cloudflare.com/client/v4/zones/${CLOUDFLARE_ZONE_ID}/dns_records?name=${encodeURIComponent(subdomain)}`,
+    { headers: getCloudflareHeaders() }
+  );
+
+  const recordData = buildCloudflareRecordData(subdomain, tipo, targetValue, proxied, opcoes);
+  const records = listResponse.data.result || [];
+  const existingRecord = DNS_MULTI_VALUE_TYPES.includes(tipo)
+    ? records.find(record => record.type === tipo && isSameRecordValue(record, recordData))
+    : records.find(record => !DNS_MULTI_VALUE_TYPES.includes(record.type));
+
+  const changed = existingRecord && recordDiffers(existingRecord, recordData);
+
+  return {
+    subdomain,
+    acao: existingRecord ? 'atualizar' : 'criar',
+    registroAtual: existingRecord
+      ? {
+        id: existingRecord.id,
+        type: existingRecord.type,
+        content: existingRecord.content,
+        proxied: existingRecord.proxied,
+        ttl: existingRecord.ttl,
+        priority: existingRecord.priority
+      }
+      : null,
+    conflito: changed
+      ? `Registro ${subdomain} já existe (${existingRecord.type} ${existingRecord.content}) e será sobrescrito`
+      : null,
+    requisicao: existingRecord
+      ? { metodo: 'PUT', url: `https://api.cloudflare.com/client/v4/zones/${CLOUDFLARE_ZONE_ID}/dns_records/${existingRecord.id}`, payload: recordData }
+      : { metodo: 'POST', url: `https://api.cloudflare.com/client/v4/zones/${CLOUDFLARE_ZONE_ID}/dns_records`, payload: recordData }
+  };
+};
+
+// ✅ Função para criar/atualizar registro DNS na Cloudflare
+// Com falharSeExistir, um registro existente não é tocado: o erro leva registroAtual
+const createCloudflareRecord = async (nome, tipo, targetValue, proxied = true, { falharSeExistir = false, ...opcoes }: CloudflareRecordOptions = {}) => {
+  try {
+    console.log('☁️ Criando registro DNS na Cloudflare...');
+    console.log(`📝 Tipo: ${tipo}, Nome: ${nome}, Target: ${targetValue}, Proxied: ${proxied}`);
+
+    const plan = await planCloudflareRecord(nome, tipo, targetValue, proxied, opcoes);
+
+    if (plan.acao === 'atualizar' && falharSeExistir) {
+      throw Object.assign(
+        new Error(`Registro ${plan.subdomain} já existe (${plan.registroAtual?.type} ${plan.registroAtual?.content})`),
+        { registroAtual: plan.registroAtual }
       );
+    }
 
-      console.log('✅ Registro DNS criado na Cloudflare');
-      return createResponse.data.result;
+    if (plan.acao === 'atualizar') {
+      console.log('🔄 Registro já existe, atualizando...');
+    } else {
+      console.log('➕ Criando novo registro DNS...');
     }
 
+    const response = await axios.request({
+      method: plan.requisicao.metodo,
+      url: plan.requisicao.url,
+      data: plan.requisicao.payload,
+      headers: getCloudflareHeaders()
+    });
+
+    console.log(plan.acao === 'atualizar' ? '✅ Registro DNS atualizado na Cloudflare' : '✅ Registro DNS criado na Cloudflare');
+    return response.data.result;
+
   } catch (error) {
     console.error('❌ Erro ao criar registro na Cloudflare:', error.response?.data || error.message);
     throw error;
   }
 };
 
-// 🆕 Função para adicionar hostname ao túnel Cloudflare
-const addHostnameToTunnel = async (hostname, service) => {
-  try {
-    if (!CLOUDFLARE_API_TOKEN || !CLOUDFLARE_ACCOUNT_ID || !CLOUDFLARE_TUNNEL_ID) {
-      throw new Error('Configurações do túnel Cloudflare não definidas (API_TOKEN, ACCOUNT_ID ou TUNNEL_ID)');
+// 🚇 A configuração do túnel é um documento único (lista ingress): toda escrita é leitura-alteração-gravação
+// do ingress inteiro. A fila abaixo serializa as escritas deste processo para que duas requisições
+// simultâneas não gravem por cima da regra uma da outra
+let tunnelWriteQueue = Promise.resolve();
+
+const withTunnelLock = (fn) => {
+  const run = tunnelWriteQueue.then(() => fn(), () => fn());
+  tunnelWriteQueue = run.catch(() => {});
+  return run;
+};
+
+// Regra do ingress do túnel; a catch-all não tem hostname nem path
+type TunnelIngressRule = {
+  hostname?: string;
+  path?: string;
+  service: string;
+  originRequest?: Record<string, unknown>;
+};
+
+const TUNNEL_CATCH_ALL_RULE = { service: 'http_status:404' };
+
+// A regra catch-all (sem hostname e sem path) precisa ser a última; sem ela, o cloudflared recusa a configuração
+const normalizeTunnelIngress = (ingress) => {
+  const isCatchAll = (rule) => !rule.hostname && !rule.path;
+  const catchAllRule = ingress.find(isCatchAll) || TUNNEL_CATCH_ALL_RULE;
+  return [...ingress.filter(rule => !isCatchAll(rule)), catchAllRule];
+};
+
+const getTunnelIngress = async () => {
+  if (!CLOUDFLARE_API_TOKEN || !CLOUDFLARE_ACCOUNT_ID || !CLOUDFLARE_TUNNEL_ID) {
+    throw new Error('Configurações do túnel Cloudflare não definidas (API_TOKEN, ACCOUNT_ID ou TUNNEL_ID)');
+  }
+
+  const currentConfig = await axios.get(getTunnelConfigUrl(), { headers: getCloudflareHeaders() });
+  return currentConfig.data.result?.config?.ingress || [];
+};
+
+// Aplica `alterar(ingress)` sobre a configuração atual dentro da fila; retornar null cancela a gravação
+const updateTunnelIngress = (alterar) => withTunnelLock(async () => {
+  const existingIngress = await getTunnelIngress();
+  const newIngress = alterar(existingIngress);
+  if (!newIngress) return { alterado: false, ingress: existingIngress };
+
+  const ingress = normalizeTunnelIngress(newIngress);
+  await axios.put(getTunnelConfigUrl(), { config: { ingress } }, { headers: getCloudflareHeaders() });
+  return { alterado: true, ingress };
+});
+
+// Regra nova entra antes da catch-all; regra existente para o mesmo hostname é trocada no lugar,
+// mantendo o originRequest atual quando nenhum é informado
+const buildTunnelHostnamePlan = (existingIngress, hostname, service, originRequest = undefined) => {
+  const existingRule = existingIngress.find(rule => rule.hostname === hostname);
+
+  const newRule = {
+    hostname: hostname,
+    service: service,
+    originRequest: originRequest ?? existingRule?.originRequest ?? {
+      noTLSVerify: true
+    }
+  };
+
+  const newIngress = existingRule
+    ? existingIngress.map(rule => rule === existingRule ? newRule : rule)
+    : [...existingIngress, newRule];
+
+  return {
+    hostname,
+    acao: existingRule ? 'atualizar' : 'criar',
+    regraAtual: existingRule || null,
+    novaRegra: newRule,
+    conflito: existingRule && existingRule.service !== service
+      ? `Hostname ${hostname} já aponta para ${existingRule.service} e será sobrescrito`
+      : null,
+    requisicao: {
+      metodo: 'PUT',
+      url: getTunnelConfigUrl(),
+      payload: { config: { ingress: normalizeTunnelIngress(newIngress) } }
     }
+  };
+};
+
+// 🆕 Função para planejar a inclusão de hostname no túnel (somente leitura)
+const planTunnelHostname = async (hostname, service, originRequest = undefined) =>
+  buildTunnelHostnamePlan(await getTunnelIngress(), hostname, service, originRequest);
 
+// 🆕 Função para adicionar hostname ao túnel Cloudflare
+// regraAnterior é a regra que existia para o hostname (lida dentro da fila), para quem precisar desfazer
+const addHostnameToTunnel = async (hostname, service, originRequest = undefined) => {
+  try {
     console.log('🚇 Adicionando hostname ao túnel Cloudflare...');
     console.log(`📝 Hostname: ${hostname}, Service: ${service}`);
 
-    const headers = {
-      'Authorization': `Bearer ${CLOUDFLARE_API_TOKEN}`,
-      'Content-Type': 'application/json'
-    };
+    let regraAnterior = null;
+    await updateTunnelIngress(ingress => {
+      const plan = buildTunnelHostnamePlan(ingress, hostname, service, originRequest);
+      regraAnterior = plan.regraAtual;
+      return plan.requisicao.payload.config.ingress;
+    });
 
-    // Primeiro, busca a configuração atual do túnel
-    const getTunnelUrl = `https://api.cloudflare.com/client/v4/accounts/${CLOUDFLARE_ACCOUNT_ID}/cfd_tunnel/${CLOUDFLARE_TUNNEL_ID}/configurations`;
-    
-    const currentConfig = await axios.get(getTunnelUrl, { headers });
-    
-    const existingIngress = currentConfig.data.result?.config?.ingress || [];
-    
-    // Remove regra existente para o mesmo hostname, se houver
-    const filteredIngress = existingIngress.filter(rule => rule.hostname !== hostname);
-    
-    // Adiciona a nova regra ANTES da regra catch-all
-    const catchAllRule = filteredIngress.find(rule => !rule.hostname);
-    const otherRules = filteredIngress.filter(rule => rule.hostname);
-    
-    const newRule = {
+    console.log('✅ Hostname adicionado ao túnel com sucesso');
+    return {
+      success: true,
       hostname: hostname,
       service: service,
-      originRequest: {
-        noTLSVerify: true
-      }
+      tunnelId: CLOUDFLARE_TUNNEL_ID,
+      regraAnterior
     };
 
-    // Monta o array final: outras regras + nova regra + catch-all
-    const newIngress = [...otherRules, newRule];
-    if (catchAllRule) {
-      newIngress.push(catchAllRule);
-    }
+  } catch (error) {
+    console.error('❌ Erro ao adicionar hostname ao túnel:', error.response?.data || error.message);
+    throw error;
+  }
+};
+
+// 🚇 Altera service, originRequest e/ou posição de uma regra existente
+// originRequest é mesclado com o atual (chave com null é removida); posicao é o índice na lista ingress (a catch-all continua a última)
+const updateTunnelHostname = async (hostname, { service, originRequest, posicao }) => {
+  try {
+    let updatedRule: TunnelIngressRule | null = null;
+
+    const result = await updateTunnelIngress(ingress => {
+      const existingRule = ingress.find(rule => rule.hostname === hostname);
+      if (!existingRule) return null;
+
+      const mergedOrigin = originRequest === undefined
+        ? existingRule.originRequest
+        : Object.fromEntries(Object.entries({ ...existingRule.originRequest, ...originRequest }).filter(([, value]) => value !== null));
+
+      updatedRule = {
+        ...existingRule,
+        service: service ?? existingRule.service,
+        originRequest: mergedOrigin && Object.keys(mergedOrigin).length > 0 ? mergedOrigin : undefined
+      };
 
-    // Atualiza a configuração do túnel
-    const updatePayload = {
-      config: {
-        ingress: newIngress
+      const others = ingress.filter(rule => rule !== existingRule);
+      if (posicao === undefined) {
+        return ingress.map(rule => rule === existingRule ? updatedRule : rule);
       }
-    };
 
-    const updateResponse = await axios.put(getTunnelUrl, updatePayload, { headers });
+      const reordered = [...others];
+      reordered.splice(Math.min(posicao, reordered.length), 0, updatedRule);
+      return reordered;
+    });
+
+    if (!result.alterado) return { updated: false, hostname };
 
-    console.log('✅ Hostname adicionado ao túnel com sucesso');
+    console.log(`✅ Regra do túnel para ${hostname} atualizada`);
     return {
-      success: true,
-      hostname: hostname,
-      service: service,
+      updated: true,
+      hostname,
+      regra: updatedRule,
+      posicao: result.ingress.findIndex(rule => rule.hostname === hostname),
       tunnelId: CLOUDFLARE_TUNNEL_ID
     };
 
   } catch (error) {
-    console.error('❌ Erro ao adicionar hostname ao túnel:', error.response?.data || error.message);
+    console.error('❌ Erro ao atualizar hostname no túnel:', error.response?.data || error.message);
+    throw error;
+  }
+};
+
+// 🚇 Volta a regra salva por addHostnameToTunnel (regraAnterior) para o hostname, no mesmo lugar da atual
+const restoreTunnelRule = (regra) => updateTunnelIngress(ingress =>
+  ingress.some(rule => rule.hostname === regra.hostname)
+    ? ingress.map(rule => rule.hostname === regra.hostname ? regra : rule)
+    : [...ingress, regra]
+);
+
+// 🆕 Função para remover hostname do túnel Cloudflare (inverso de addHostnameToTunnel)
+const removeHostnameFromTunnel = async (hostname) => {
+  try {
+    console.log(`🚇 Removendo hostname do túnel Cloudflare: ${hostname}`);
+
+    const result = await updateTunnelIngress(ingress => {
+      const newIngress = ingress.filter(rule => rule.hostname !== hostname);
+      return newIngress.length === ingress.length ? null : newIngress;
+    });
+
+    if (!result.alterado) {
+      console.log('ℹ️ Hostname não estava configurado no túnel');
+      return { success: true, hostname, removed: false, tunnelId: CLOUDFLARE_TUNNEL_ID };
+    }
+
+    console.log('✅ Hostname removido do túnel com sucesso');
+    return { success: true, hostname, removed: true, tunnelId: CLOUDFLARE_TUNNEL_ID };
+
+  } catch (error) {
+    console.error('❌ Erro ao remover hostname do túnel:', error.response?.data || error.message);
+    throw error;
+  }
+};
+
+// ✅ Função para remover registro DNS na Cloudflare (inverso de createCloudflareRecord)
+// Sem filtros remove todos os registros do nome; tipo/content restringem (ex: só um TXT)
+const deleteCloudflareRecord = async (nome, { tipo = '', content = '' } = {}) => {
+  try {
+    if (!CLOUDFLARE_API_TOKEN || !CLOUDFLARE_ZONE_ID || !CLOUDFLARE_DOMAIN) {
+      throw new Error('Configurações da Cloudflare não definidas (API_TOKEN, ZONE_ID ou DOMAIN)');
+    }
+
+    const subdomain = `${nome}.${CLOUDFLARE_DOMAIN}`;
+    console.log(`☁️ Removendo registro DNS na Cloudflare: ${subdomain}`);
+
+    const headers = getCloudflareHeaders();
+
+    const listResponse = await axios.get(
+      `https://api.cloudflare.com/client/v4/zones/${CLOUDFLARE_ZONE_ID}/dns_records?name=${encodeURIComponent(subdomain)}`,
+      { headers }
+    );
+
+    const records = (listResponse.data.result || [])
+      .filter(record => (!tipo || record.type === tipo) && (!content || record.content === content));
+    const removedIds = [];
+
+    for (const record of records) {
+      await axios.delete(
+        `https://api.cloudflare.com/client/v4/zones/${CLOUDFLARE_ZONE_ID}/dns_records/${record.id}`,
+        { headers }
+      );
+      removedIds.push(record.id);
+    }
+
+    console.log(removedIds.length > 0 ? '✅ Registro DNS removido da Cloudflare' : 'ℹ️ Nenhum registro DNS encontrado');
+    return { subdomain, removedIds };
+
+  } catch (error) {
+    console.error('❌ Erro ao remover registro na Cloudflare:', error.response?.data || error.message);
     throw error;
   }
 };
 
-// Middleware de autenticação da API
+// ✅ Função para listar registros DNS da zona (filtros opcionais por nome e tipo, paginado pela Cloudflare)
+const listCloudflareRecords = async ({ nome = '', tipo = '', pagina = 1, porPagina = 100 } = {}) => {
+  if (!CLOUDFLARE_API_TOKEN || !CLOUDFLARE_ZONE_ID || !CLOUDFLARE_DOMAIN) {
+    throw new Error('Configurações da Cloudflare não definidas (API_TOKEN, ZONE_ID ou DOMAIN)');
+  }
+
+  const query = new URLSearchParams({ page: String(pagina), per_page: String(porPagina) });
+  if (nome) query.set('name', `${nome}.${CLOUDFLARE_DOMAIN}`);
+  if (tipo) query.set('type', tipo);
+
+  const response = await axios.get(
+    `https://api.cloudflare.com/client/v4/zones/${CLOUDFLARE_ZONE_ID}/dns_records?${query}`,
+    { headers: getCloudflareHeaders() }
+  );
+
+  return { registros: response.data.result || [], paginacao: response.data.result_info };
+};
+
+// 🔑 Chaves de API com escopos (guardadas só como hash SHA-256)
+// AUTH_TOKEN continua valendo como chave "admin" de bootstrap; sem nenhuma chave configurada
+// a API só aceita requisições anônimas se ALLOW_UNAUTHENTICATED=true
+const API_KEY_SCOPES = ['stacks:read', 'stacks:write', 'dns:read', 'dns:write', 'tunnel:read', 'tunnel:write', 'admin'];
+// Chaves de clientes (vinculadas a tenants) só operam stacks dos próprios tenants
+const TENANT_KEY_SCOPES = ['stacks:read', 'stacks:write'];
+
+const hashApiKey = (chave) => crypto.createHash('sha256').update(chave).digest('hex');
+
+const rowToApiKey = (row) => ({
+  id: row.id,
+  nome: row.nome,
+  prefixo: row.prefixo,
+  escopos: JSON.parse(row.escopos),
+  expiraEm: row.expira_em,
+  tenants: row.tenants ? JSON.parse(row.tenants) : null,
+  ultimoUso: row.ultimo_uso,
+  criadoEm: row.criado_em
+});
+
+const listApiKeys = () => db.query('SELECT * FROM api_keys ORDER BY criado_em').all().map(rowToApiKey);
+
+const countApiKeys = () => db.query('SELECT COUNT(*) AS total FROM api_keys').get().total;
+
+// A chave em texto só existe no retorno desta função
+const createApiKey = ({ nome, escopos, expiraEm, tenants }) => {
+  const chave = `sfk_${crypto.randomBytes(32).toString('base64url')}`;
+  const apiKey = {
+    id: crypto.randomUUID(),
+    nome,
+    prefixo: chave.slice(0, 12),
+    escopos,
+    expiraEm,
+    tenants,
+    ultimoUso: null,
+    criadoEm: new Date().toISOString()
+  };
+
+  db.query(`
+    INSERT INTO api_keys (id, nome, prefixo, hash, escopos, expira_em, tenants, criado_em)
+    VALUES ($id, $nome, $prefixo, $hash, $escopos, $expiraEm, $tenants, $criadoEm)
+  `).run({
+    $id: apiKey.id,
+    $nome: nome,
+    $prefixo: apiKey.prefixo,
+    $hash: hashApiKey(chave),
+    $escopos: JSON.stringify(escopos),
+    $expiraEm: expiraEm,
+    $tenants: tenants ? JSON.stringify(tenants) : null,
+    $criadoEm: apiKey.criadoEm
+  });
+
+  return { apiKey, chave };
+};
+
+const deleteApiKey = (id) => db.query('DELETE FROM api_keys WHERE id = ?').run(id).changes > 0;
+
+const findApiKey = (chave) => {
+  const row = db.query('SELECT * FROM api_keys WHERE hash = ?').get(hashApiKey(chave));
+  return row ? rowToApiKey(row) : null;
+};
+
+const isAuthConfigured = () => Boolean(AUTH_TOKEN) || countApiKeys() > 0;
+
+// "admin" libera tudo e "<recurso>:write" inclui "<recurso>:read"
+const hasScope = (escopos, escopo) => {
+  if (escopos.includes('admin') || escopos.includes(escopo)) return true;
+  const [recurso, acao] = escopo.split(':');
+  return acao === 'read' && escopos.includes(`${recurso}:write`);
+};
+
+// Middleware de autenticação da API: identifica a chave e guarda em req.apiKey
 const authenticateToken = (req, res, next) => {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
-  if (!AUTH_TOKEN) return next();
+  if (!isAuthConfigured()) {
+    if (ALLOW_UNAUTHENTICATED) {
+      req.apiKey = { id: null, nome: 'anonimo', escopos: ['admin'], tenants: null };
+      return next();
+    }
+    return res.status(503).json({
+      error: 'Autenticação não configurada',
+      message: 'Defina AUTH_TOKEN, crie chaves em /api/keys ou use ALLOW_UNAUTHENTICATED=true'
+    });
+  }
 
   if (!token) {
     return res.status(401).json({
@@ -228,774 +850,4849 @@ const authenticateToken = (req, res, next) => {
     });
   }
 
-  if (token !== AUTH_TOKEN) {
+  if (AUTH_TOKEN && token === AUTH_TOKEN) {
+    req.apiKey = { id: null, nome: 'AUTH_TOKEN', escopos: ['admin'], tenants: null };
+    return next();
+  }
+
+  const apiKey = findApiKey(token);
+
+  if (!apiKey) {
     return res.status(403).json({
       error: 'Token inválido',
       message: 'Token de autenticação não autorizado'
     });
   }
 
+  if (apiKey.expiraEm && new Date(apiKey.expiraEm) <= new Date()) {
+    return res.status(403).json({
+      error: 'Chave expirada',
+      message: `A chave '${apiKey.nome}' expirou em ${apiKey.expiraEm}`
+    });
+  }
+
+  db.query('UPDATE api_keys SET ultimo_uso = ? WHERE id = ?').run(new Date().toISOString(), apiKey.id);
+  req.apiKey = apiKey;
   next();
 };
 
-// 🧠 Template dinâmico de stack
-const getStackTemplate = (tipo, nome, rede, config = {}) => {
-  switch (tipo.toLowerCase()) {
-    case 'redis':
-      const porta = config.porta || 6379;
-      return `version: "3.7"
-services:
-  redis-${nome}:
-    image: redis:7
-    hostname: "{{.Service.Name}}"
-    command: [
-      "redis-server",
-      "--appendonly", "yes",
-      "--port", "6379",
-      "--requirepass", "qfYHqHsN2wceR6M3DgzgctHmTgn-${nome}"
-    ]
-    networks:
-      - ${rede}
-    volumes:
-      - redis-${nome}:/data
-    deploy:
-      mode: replicated
-      replicas: 1
-      placement:
-        constraints:
-          - node.labels.n8n-new == true
-      resources:
-        limits:
-          cpus: "1"
-          memory: 1024M
-
-volumes:
-  redis-${nome}:
-    external: true
-    name: redis-${nome}
-networks:
-  ${rede}:
-    external: true
-    name: ${rede}`;
-
-    case 'n8n-editor':
-      const versao = config.versaoN8n || 'latest';
-      return `version: "3.7"
-
-services:
-  n8n_editor_${nome}:
-    image: n8nio/n8n:${versao}
-    hostname: "{{.Service.Name}}.{{.Task.Slot}}"
-    command: start
-    networks:
-      - ${rede}
-    environment:
-      - NODE_ENV=production
-      - N8N_ENCRYPTION_KEY=${config.encryptionKey}
-      - N8N_METRICS=true
-      - N8N_DIAGNOSTICS_ENABLED=false
-      - N8N_PAYLOAD_SIZE_MAX=16
-      - N8N_LOG_LEVEL=info
-      - GENERIC_TIMEZONE=America/Sao_Paulo
-      - N8N_ENFORCE_SETTINGS_FILE_PERMISSIONS=true
-      - N8N_RUNNERS_ENABLED=false
-      - N8N_RUNNERS_MODE=internal
-      - OFFLOAD_MANUAL_EXECUTIONS_TO_WORKERS=false
-      - DB_TYPE=postgresdb
-      - DB_POSTGRESDB_DATABASE=${config.postgresDb || 'n8n'}
-      - DB_POSTGRESDB_HOST=${config.postgresHost || 'postgres'}
-      - DB_POSTGRESDB_PORT=5432
-      - DB_POSTGRESDB_USER=postgres
-      - DB_POSTGRESDB_PASSWORD=${config.postgresPassword || 'postgres'}
-      - DB_POSTGRESDB_POOL_SIZE=10 
-      - N8N_PORT=5678
-      - N8N_HOST=editor.${nome}.${DOMAIN}
-      - N8N_EDITOR_BASE_URL=https://editor.${nome}.${DOMAIN}/
-      - N8N_PROTOCOL=https
-      - WEBHOOK_URL=https://webhook.${nome}.${DOMAIN}/
-      - N8N_ENDPOINT_WEBHOOK=webhook
-      - EXECUTIONS_MODE=queue
-      - QUEUE_BULL_REDIS_HOST=${config.redisHost || 'redis'}
-      - QUEUE_BULL_REDIS_PORT=${config.redisPort || '6379'}
-      - QUEUE_BULL_REDIS_PASSWORD=${config.redisPassword || ''}
-      - QUEUE_BULL_REDIS_DB=2
-      - EXECUTIONS_TIMEOUT=3600 
-      - EXECUTIONS_TIMEOUT_MAX=7200 
-      - N8N_VERSION_NOTIFICATIONS_ENABLED=true
-      - N8N_PUBLIC_API_SWAGGERUI_DISABLED=false
-      - N8N_TEMPLATES_ENABLED=true
-      - N8N_ONBOARDING_FLOW_DISABLED=true
-      - N8N_WORKFLOW_TAGS_DISABLED=false
-      - N8N_HIDE_USAGE_PAGE=false
-      - EXECUTIONS_DATA_PRUNE=true
-      - EXECUTIONS_DATA_MAX_AGE=336
-      - EXECUTIONS_DATA_PRUNE_HARD_DELETE_INTERVAL=15
-      - EXECUTIONS_DATA_PRUNE_SOFT_DELETE_INTERVAL=60
-      - EXECUTIONS_DATA_PRUNE_MAX_COUNT=10000
-      - EXECUTIONS_DATA_SAVE_ON_ERROR=all
-      - EXECUTIONS_DATA_SAVE_ON_SUCCESS=all
-      - EXECUTIONS_DATA_SAVE_ON_PROGRESS=true
-      - EXECUTIONS_DATA_SAVE_MANUAL_EXECUTIONS=true
-      - NODE_FUNCTION_ALLOW_BUILTIN=*
-      - NODE_FUNCTION_ALLOW_EXTERNAL=lodash
-      - N8N_COMMUNITY_PACKAGES_ENABLED=true
-      - N8N_REINSTALL_MISSING_PACKAGES=true
-      - N8N_NODE_PATH=/home/node/.n8n/nodes
-    deploy:
-      mode: replicated
-      replicas: 1
-      placement:
-        constraints:
-          - node.labels.n8n-new == true
-      resources:
-        limits:
-          cpus: "1"
-          memory: 1024M
-      update_config:
-        parallelism: 1
-        delay: 30s
-        order: start-first
-        failure_action: rollback
-      labels:
-        - traefik.enable=true
-        - traefik.http.routers.n8n-editor-${nome}.rule=Host(\`editor.${nome}.${DOMAIN}\`)
-        - traefik.http.routers.n8n-editor-${nome}.entrypoints=websecure
-        - traefik.http.routers.n8n-editor-${nome}.tls.certresolver=letsencryptresolver
-        - traefik.http.routers.n8n-editor-${nome}.service=n8n-editor-${nome}
-        - traefik.http.services.n8n-editor-${nome}.loadbalancer.server.port=5678
-        - traefik.http.services.n8n-editor-${nome}.loadbalancer.passHostHeader=true
-networks:
-  ${rede}:
-    name: ${rede}
-    external: true`;
-
-    case 'n8n-webhook':
-      const versaoWebhook = config.versaoN8n || 'latest';
-      return `version: "3.7"
-
-services:
-  n8n_webhook_${nome}:
-    image: n8nio/n8n:${versaoWebhook}
-    hostname: "{{.Service.Name}}.{{.Task.Slot}}"
-    command: webhook
-    networks:
-      - ${rede}
-    environment:
-      - NODE_ENV=production
-      - N8N_ENCRYPTION_KEY=${config.encryptionKey}
-      - N8N_METRICS=true
-      - N8N_DIAGNOSTICS_ENABLED=false
-      - N8N_PAYLOAD_SIZE_MAX=16
-      - N8N_LOG_LEVEL=info
-      - GENERIC_TIMEZONE=America/Sao_Paulo
-      - N8N_ENFORCE_SETTINGS_FILE_PERMISSIONS=true
-      - N8N_RUNNERS_ENABLED=false
-      - N8N_RUNNERS_MODE=internal
-      - OFFLOAD_MANUAL_EXECUTIONS_TO_WORKERS=false
-      - DB_TYPE=postgresdb
-      - DB_POSTGRESDB_DATABASE=${config.postgresDb || 'n8n'}
-      - DB_POSTGRESDB_HOST=${config.postgresHost || 'postgres'}
-      - DB_POSTGRESDB_PORT=5432
-      - DB_POSTGRESDB_USER=postgres
-      - DB_POSTGRESDB_PASSWORD=${config.postgresPassword || 'postgres'}
-      - DB_POSTGRESDB_POOL_SIZE=10 
-      - N8N_PORT=5678
-      - N8N_HOST=editor.${nome}.${DOMAIN}
-      - N8N_EDITOR_BASE_URL=https://editor.${nome}.${DOMAIN}/
-      - N8N_PROTOCOL=https
-      - WEBHOOK_URL=https://webhook.${nome}.${DOMAIN}/
-      - N8N_ENDPOINT_WEBHOOK=webhook
-      - EXECUTIONS_MODE=queue
-      - QUEUE_BULL_REDIS_HOST=${config.redisHost || 'redis'}
-      - QUEUE_BULL_REDIS_PORT=${config.redisPort || '6379'}
-      - QUEUE_BULL_REDIS_PASSWORD=${config.redisPassword || ''}
-      - QUEUE_BULL_REDIS_DB=2
-      - EXECUTIONS_TIMEOUT=3600 
-      - EXECUTIONS_TIMEOUT_MAX=7200 
-      - N8N_VERSION_NOTIFICATIONS_ENABLED=true
-      - N8N_PUBLIC_API_SWAGGERUI_DISABLED=false
-      - N8N_TEMPLATES_ENABLED=true
-      - N8N_ONBOARDING_FLOW_DISABLED=true
-      - N8N_WORKFLOW_TAGS_DISABLED=false
-      - N8N_HIDE_USAGE_PAGE=false
-      - EXECUTIONS_DATA_PRUNE=true
-      - EXECUTIONS_DATA_MAX_AGE=336
-      - EXECUTIONS_DATA_PRUNE_HARD_DELETE_INTERVAL=15
-      - EXECUTIONS_DATA_PRUNE_SOFT_DELETE_INTERVAL=60
-      - EXECUTIONS_DATA_PRUNE_MAX_COUNT=10000
-      - EXECUTIONS_DATA_SAVE_ON_ERROR=all
-      - EXECUTIONS_DATA_SAVE_ON_SUCCESS=all
-      - EXECUTIONS_DATA_SAVE_ON_PROGRESS=true
-      - EXECUTIONS_DATA_SAVE_MANUAL_EXECUTIONS=true
-      - NODE_FUNCTION_ALLOW_BUILTIN=*
-      - NODE_FUNCTION_ALLOW_EXTERNAL=lodash
-      - N8N_COMMUNITY_PACKAGES_ENABLED=true
-      - N8N_REINSTALL_MISSING_PACKAGES=true
-      - N8N_NODE_PATH=/home/node/.n8n/nodes
-    deploy:
-      mode: replicated
-      replicas: 2
-      placement:
-        constraints:
-          - node.labels.n8n-new == true
-      resources:
-        limits:
-          cpus: "1"
-          memory: 1024M
-      update_config:
-        parallelism: 1
-        delay: 30s
-        order: start-first
-        failure_action: rollback
-      labels:
-        - traefik.enable=true
-        - traefik.http.routers.n8n-webhook-${nome}.rule=Host(\`webhook.${nome}.${DOMAIN}\`)
-        - traefik.http.routers.n8n-webhook-${nome}.entrypoints=websecure
-        - traefik.http.routers.n8n-webhook-${nome}.tls.certresolver=letsencryptresolver
-        - traefik.http.routers.n8n-webhook-${nome}.service=n8n-webhook-${nome}
-        - traefik.http.services.n8n-webhook-${nome}.loadbalancer.server.port=5678
-        - traefik.http.services.n8n-webhook-${nome}.loadbalancer.passHostHeader=true
-networks:
-  ${rede}:
-    name: ${rede}
-    external: true`;
-
-    case 'n8n-worker':
-      const versaoWorker = config.versaoN8n || 'latest';
-      return `version: "3.7"
-
-services:
-  n8n_worker_${nome}:
-    image: n8nio/n8n:${versaoWorker}
-    hostname: "{{.Service.Name}}.{{.Task.Slot}}"
-    command: worker --concurrency=10
-    networks:
-      - ${rede}
-    environment:
-      - NODE_ENV=production
-      - N8N_ENCRYPTION_KEY=${config.encryptionKey}
-      - N8N_METRICS=true
-      - N8N_DIAGNOSTICS_ENABLED=false
-      - N8N_PAYLOAD_SIZE_MAX=16
-      - N8N_LOG_LEVEL=info
-      - GENERIC_TIMEZONE=America/Sao_Paulo
-      - N8N_ENFORCE_SETTINGS_FILE_PERMISSIONS=true
-      - N8N_RUNNERS_ENABLED=false
-      - N8N_RUNNERS_MODE=internal
-      - OFFLOAD_MANUAL_EXECUTIONS_TO_WORKERS=false
-      - DB_TYPE=postgresdb
-      - DB_POSTGRESDB_DATABASE=${config.postgresDb || 'n8n'}
-      - DB_POSTGRESDB_HOST=${config.postgresHost || 'postgres'}
-      - DB_POSTGRESDB_PORT=5432
-      - DB_POSTGRESDB_USER=postgres
-      - DB_POSTGRESDB_PASSWORD=${config.postgresPassword || 'postgres'}
-      - DB_POSTGRESDB_POOL_SIZE=10 
-      - N8N_PORT=5678
-      - N8N_HOST=editor.${nome}.${DOMAIN}
-      - N8N_EDITOR_BASE_URL=https://editor.${nome}.${DOMAIN}/
-      - N8N_PROTOCOL=https
-      - WEBHOOK_URL=https://webhook.${nome}.${DOMAIN}/
-      - N8N_ENDPOINT_WEBHOOK=webhook
-      - EXECUTIONS_MODE=queue
-      - QUEUE_BULL_REDIS_HOST=${config.redisHost || 'redis'}
-      - QUEUE_BULL_REDIS_PORT=${config.redisPort || '6379'}
-      - QUEUE_BULL_REDIS_PASSWORD=${config.redisPassword || ''}
-      - QUEUE_BULL_REDIS_DB=2
-      - EXECUTIONS_TIMEOUT=3600 
-      - EXECUTIONS_TIMEOUT_MAX=7200 
-      - N8N_VERSION_NOTIFICATIONS_ENABLED=true
-      - N8N_PUBLIC_API_SWAGGERUI_DISABLED=false
-      - N8N_TEMPLATES_ENABLED=true
-      - N8N_ONBOARDING_FLOW_DISABLED=true
-      - N8N_WORKFLOW_TAGS_DISABLED=false
-      - N8N_HIDE_USAGE_PAGE=false
-      - EXECUTIONS_DATA_PRUNE=true
-      - EXECUTIONS_DATA_MAX_AGE=336
-      - EXECUTIONS_DATA_PRUNE_HARD_DELETE_INTERVAL=15
-      - EXECUTIONS_DATA_PRUNE_SOFT_DELETE_INTERVAL=60
-      - EXECUTIONS_DATA_PRUNE_MAX_COUNT=10000
-      - EXECUTIONS_DATA_SAVE_ON_ERROR=all
-      - EXECUTIONS_DATA_SAVE_ON_SUCCESS=all
-      - EXECUTIONS_DATA_SAVE_ON_PROGRESS=true
-      - EXECUTIONS_DATA_SAVE_MANUAL_EXECUTIONS=true
-      - NODE_FUNCTION_ALLOW_BUILTIN=*
-      - NODE_FUNCTION_ALLOW_EXTERNAL=lodash
-      - N8N_COMMUNITY_PACKAGES_ENABLED=true
-      - N8N_REINSTALL_MISSING_PACKAGES=true
-      - N8N_NODE_PATH=/home/node/.n8n/nodes
-    deploy:
-      mode: replicated
-      replicas: 2
-      placement:
-        constraints:
-          - node.labels.n8n-new == true
-      resources:
-        limits:
-          cpus: "1"
-          memory: 1024M
-      update_config:
-        parallelism: 1
-        delay: 30s
-        order: start-first
-        failure_action: rollback
-networks:
-  ${rede}:
-    name: ${rede}
-    external: true`;
-
-    default:
-      throw new Error(`Tipo de stack '${tipo}' não suportado`);
+// Middleware de autorização: usar depois de authenticateToken
+const requireScope = (escopo) => (req, res, next) => {
+  if (!req.apiKey || !hasScope(req.apiKey.escopos, escopo)) {
+    return res.status(403).json({
+      error: 'Permissão insuficiente',
+      message: `Esta operação exige o escopo '${escopo}'`
+    });
   }
+
+  next();
 };
 
-// 🆕 Função para criar stack individual no Portainer
-const createSingleStack = async (stackName, stackContent, swarmId, endpointId, headers) => {
-  const payload = {
-    name: stackName,
-    stackFileContent: stackContent,
-    env: [],
-    swarmID: swarmId
-  };
+// Chaves sem vínculo (tenants = null) acessam todos os tenants
+const canAccessTenant = (apiKey, nome) => !apiKey?.tenants || apiKey.tenants.includes(nome);
 
-  const url = `${PORTAINER_URL}/api/stacks/create/swarm/string?endpointId=${endpointId}`;
-  
-  console.log(`🔗 Criando stack: ${stackName}`);
+// Middleware para rotas /:nome: tenant fora do vínculo da chave responde como inexistente,
+// para que um cliente não descubra os nomes dos outros tenants
+const requireTenantAccess = (req, res, next) => {
+  if (!canAccessTenant(req.apiKey, req.params.nome)) {
+    return res.status(404).json({ error: 'Tenant não encontrado' });
+  }
 
-  const response = await axios.post(url, payload, {
+  next();
+};
+
+// Middleware para operações do operador (criar, alterar, remover, suspender, campanhas...)
+const denyTenantBoundKeys = (req, res, next) => {
+  if (req.apiKey?.tenants) {
+    return res.status(403).json({
+      error: 'Permissão insuficiente',
+      message: 'Chaves vinculadas a tenants não podem usar esta operação'
+    });
+  }
+
+  next();
+};
+
+// 📜 Auditoria: toda requisição que altera algo (POST, PUT, PATCH, DELETE) vira uma linha
+// somente-inclusão (triggers no SQLite bloqueiam UPDATE e DELETE). Jobs assíncronos ganham
+// uma segunda linha quando terminam, com os recursos que realmente foram criados
+const AUDIT_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+const AUDIT_SENSITIVE_KEY = /senha|password|segredo|secret|token|chave|apikey/i;
+const JOB_FINAL_STATUSES = ['concluido', 'parcial', 'revertido', 'falhou', 'interrompido'];
+
+// Nome da ação por rota; rotas fora da lista usam "<MÉTODO> <rota>"
+const AUDIT_ACTIONS = new Map(Object.entries({
+  'POST /api/stack': 'stack.criar',
+  'PATCH /api/stack/:nome': 'stack.alterar',
+  'DELETE /api/stack/:nome': 'stack.remover',
+  'POST /api/tenants/:nome/scale': 'tenant.escalar',
+  'POST /api/tenants/:nome/restart': 'tenant.reiniciar',
+  'POST /api/tenants/:nome/suspend': 'tenant.suspender',
+  'POST /api/tenants/:nome/resume': 'tenant.reativar',
+  'POST /api/tenants/:nome/rotate-secrets': 'tenant.rotacionar_segredos',
+  'POST /api/campanhas': 'campanha.criar',
+  'POST /api/cloudflare': 'dns.criar',
+  'DELETE /api/cloudflare/:nome': 'dns.remover',
+  'POST /api/cloudflare/tunnel': 'tunel.adicionar',
+  'PATCH /api/cloudflare/tunnel/:hostname': 'tunel.alterar',
+  'DELETE /api/cloudflare/tunnel/:hostname': 'tunel.remover',
+  'POST /api/keys': 'chave.criar',
+  'DELETE /api/keys/:id': 'chave.revogar',
+  'POST /api/webhooks': 'webhook.criar',
+  'DELETE /api/webhooks/:id': 'webhook.remover',
+  'POST /api/templates/reload': 'templates.recarregar',
+  'POST /api/auth/refresh': 'portainer.renovar_autenticacao'
+}));
+
+// Jobs iniciados por requisições auditadas, aguardando o fim para a linha de conclusão
+const auditedJobs = new Map();
+
+const rowToAudit = (row) => ({
+  id: row.id,
+  criadoEm: row.criado_em,
+  ator: row.ator,
+  atorId: row.ator_id,
+  acao: row.acao,
+  metodo: row.metodo,
+  rota: row.rota,
+  tenant: row.tenant,
+  resumo: row.resumo ? JSON.parse(row.resumo) : null,
+  recursos: row.recursos ? JSON.parse(row.recursos) : null,
+  resultado: row.resultado,
+  status: row.status,
+  duracaoMs: row.duracao_ms,
+  jobId: row.job_id
+});
+
+const recordAudit = (entry) => {
+  try {
+    db.query(`
+      INSERT INTO auditoria (criado_em, ator, ator_id, acao, metodo, rota, tenant, resumo, recursos, resultado, status, duracao_ms, job_id)
+      VALUES ($criadoEm, $ator, $atorId, $acao, $metodo, $rota, $tenant, $resumo, $recursos, $resultado, $status, $duracaoMs, $jobId)
+    `).run({
+      $criadoEm: new Date().toISOString(),
+      $ator: entry.ator,
+      $atorId: entry.atorId || null,
+      $acao: entry.acao,
+      $metodo: entry.metodo || null,
+      $rota: entry.rota || null,
+      $tenant: entry.tenant || null,
+      $resumo: entry.resumo ? JSON.stringify(entry.resumo) : null,
+      $recursos: entry.recursos && Object.keys(entry.recursos).length > 0 ? JSON.stringify(entry.recursos) : null,
+      $resultado: entry.resultado,
+      $status: entry.status ?? null,
+      $duracaoMs: entry.duracaoMs ?? null,
+      $jobId: entry.jobId || null
+    });
+  } catch (error) {
+    // Falha na auditoria não desfaz a operação já executada
+    console.error(`❌ Erro ao registrar auditoria (${entry.acao}):`, error.message);
+  }
+};
+
+const listAudit = ({ tenant = '', ator = '', acao = '', desde = '', ate = '', limite = 100 } = {}) => {
+  const filters = [];
+  const values = [];
+  if (tenant) { filters.push('tenant = ?'); values.push(tenant); }
+  if (ator) { filters.push('ator = ?'); values.push(ator); }
+  if (acao) { filters.push('acao = ?'); values.push(acao); }
+  if (desde) { filters.push('criado_em >= ?'); values.push(desde); }
+  if (ate) { filters.push('criado_em <= ?'); values.push(ate); }
+
+  const where = filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : '';
+  return db.query(`SELECT * FROM auditoria ${where} ORDER BY id DESC LIMIT ?`)
+    .all(...values, limite)
+    .map(rowToAudit);
+};
+
+// Resumo da requisição sem segredos: campos com nome sensível e parâmetros secreto: true viram ********
+const redactAuditValue = (value, secretFields): unknown => {
+  if (Array.isArray(value)) return value.map(item => redactAuditValue(item, secretFields));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      key,
+      AUDIT_SENSITIVE_KEY.test(key) || secretFields.has(key) ? SECRET_MASK : redactAuditValue(item, secretFields)
+    ]));
+  }
+  return value;
+};
+
+const summarizeAuditRequest = (req) => {
+  const secretFields = new Set(listTemplates().flatMap(getTemplateSecretFields));
+  return redactAuditValue({
+    params: Object.keys(req.params || {}).length > 0 ? req.params : undefined,
+    query: Object.keys(req.query || {}).length > 0 ? req.query : undefined,
+    body: req.body && Object.keys(req.body).length > 0 ? req.body : undefined
+  }, secretFields);
+};
+
+// Recursos afetados pela requisição (stacks, dns, tunel, servicos...), informados pelas rotas
+const addAuditResources = (res, recursos) => {
+  const auditoria = res.locals.auditoria;
+  if (!auditoria) return;
+
+  for (const [tipo, itens] of Object.entries(recursos)) {
+    const lista = (Array.isArray(itens) ? itens : [itens]).filter(item => item !== undefined && item !== null);
+    if (lista.length > 0) auditoria.recursos[tipo] = [...(auditoria.recursos[tipo] || []), ...lista];
+  }
+};
+
+// Associa o job à requisição; a linha de conclusão herda o autor
+const auditJob = (req, res, job) => {
+  if (!res.locals.auditoria) return;
+  res.locals.auditoria.jobId = job.id;
+  auditedJobs.set(job.id, {
+    ator: req.apiKey?.nome || 'desconhecido',
+    atorId: req.apiKey?.id,
+    tenant: res.locals.auditoria.tenant || job.nome
+  });
+};
+
+// Recursos criados/alterados segundo o resultado do job
+const collectJobAuditResources = (job) => {
+  const resultado = job.resultado || {};
+
+  const stacks = (resultado.stacks || []).filter(stack => stack?.id !== undefined)
+    .map(stack => ({ id: stack.id, nome: stack.name || stack.nome || stack.stack }));
+
+  const publicados = resultado.publicacao || [];
+  const tunel = publicados.filter(item => item.tunel).map(item => item.hostname);
+  const dns = publicados.filter(item => item.dns).map(item => ({ id: item.dns.recordId, nome: item.dns.registro }));
+
+  return {
+    ...(stacks.length > 0 ? { stacks } : {}),
+    ...(tunel.length > 0 ? { tunel } : {}),
+    ...(dns.length > 0 ? { dns } : {})
+  };
+};
+
+// Chamado por saveJob: registra a conclusão uma única vez
+const auditJobCompletion = (job) => {
+  const contexto = auditedJobs.get(job.id);
+  if (!contexto || !JOB_FINAL_STATUSES.includes(job.status)) return;
+
+  auditedJobs.delete(job.id);
+  recordAudit({
+    ...contexto,
+    acao: 'job.finalizado',
+    resumo: { tipo: job.tipo, nome: job.nome, status: job.status, erro: job.erro?.message },
+    recursos: collectJobAuditResources(job),
+    resultado: job.status === 'concluido' ? 'sucesso' : job.status === 'parcial' ? 'parcial' : 'erro',
+    duracaoMs: Date.parse(job.atualizadoEm) - Date.parse(job.criadoEm),
+    jobId: job.id
+  });
+};
+
+app.use((req, res, next) => {
+  if (!AUDIT_METHODS.includes(req.method)) return next();
+
+  const startedAt = Date.now();
+  res.locals.auditoria = { recursos: {}, jobId: null, tenant: null };
+
+  res.on('finish', () => {
+    // Rotas inexistentes não alteram nada
+    if (!req.route) return;
+
+    const route = `${req.baseUrl}${req.route.path}`;
+    const tenantRoute = route.startsWith('/api/stack') || route.startsWith('/api/tenants');
+    const tenant = res.locals.auditoria.tenant || req.params?.nome || (tenantRoute ? req.body?.nome : req.body?.tenant);
+
+    recordAudit({
+      ator: req.apiKey?.nome || 'desconhecido',
+      atorId: req.apiKey?.id,
+      acao: AUDIT_ACTIONS.get(`${req.method} ${route}`) || `${req.method} ${route}`,
+      metodo: req.method,
+      rota: req.originalUrl.split('?')[0],
+      tenant: typeof tenant === 'string' ? tenant : null,
+      resumo: summarizeAuditRequest(req),
+      recursos: res.locals.auditoria.recursos,
+      resultado: res.statusCode === 207 ? 'parcial' : res.statusCode < 400 ? 'sucesso' : 'erro',
+      status: res.statusCode,
+      duracaoMs: Date.now() - startedAt,
+      jobId: res.locals.auditoria.jobId
+    });
+  });
+
+  next();
+});
+
+// 🧠 Registro de templates de stack (arquivos YAML em TEMPLATES_DIR)
+// Cada template declara seus parâmetros (tipo, padrão, obrigatório) e as stacks que produz.
+// Placeholders {{param}} são substituídos nos valores e chaves do compose; {{.Service.Name}} e
+// afins (templates do Docker) não casam com o padrão e passam intactos.
+const TEMPLATE_PLACEHOLDER = /\{\{\s*([A-Za-z_]\w*)\s*\}\}/g;
+const TEMPLATE_EXACT_PLACEHOLDER = /^\{\{\s*([A-Za-z_]\w*)\s*\}\}$/;
+
+// Documento compose gerado a partir do template (subconjunto usado pelas stacks)
+type ComposeResource = { external?: boolean; name?: string; driver?: string };
+
+type ComposeService = {
+  image: string;
+  hostname?: string;
+  command?: string | string[];
+  networks?: string[];
+  environment?: string[] | Record<string, string>;
+  volumes?: string[];
+  secrets?: string[];
+  deploy?: Record<string, unknown>;
+};
+
+type ComposeFile = {
+  version: string;
+  services: Record<string, ComposeService>;
+  volumes?: Record<string, ComposeResource>;
+  networks?: Record<string, ComposeResource>;
+  secrets?: Record<string, ComposeResource>;
+};
+
+// Regras de nome: `nome` vira label DNS (editor.{nome}.dominio) e parte do nome dos serviços Swarm,
+// que são limitados a 63 caracteres no formato {stack}_{serviço}. Com o template n8n
+// (n8n-webhook-{nome}_n8n_webhook_{nome}) isso deixa no máximo 19 caracteres para o nome.
+const NOME_MAX_LENGTH = 19;
+const NOME_PATTERN = /^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/;
+// Redes Docker aceitam `_` (ex: network_public), então a regra da rede é um pouco mais larga
+const REDE_MAX_LENGTH = 63;
+const REDE_PATTERN = /^[a-zA-Z0-9]([a-zA-Z0-9_-]*[a-zA-Z0-9])?$/;
+// Nomes DNS relativos ao domínio (editor.cliente1, _sip._tcp.cliente1): labels de até 63 caracteres separados por ponto
+const DNS_NOME_MAX_LENGTH = 253;
+const DNS_LABEL_PATTERN = /^[a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9])?$/i;
+// Caracteres de controle (quebra de linha, tab...) nunca são aceitos em parâmetros
+const CONTROL_CHARS = /[\u0000-\u001f\u007f]/;
+
+const validateNome = (nome) => {
+  if (typeof nome !== 'string' || !NOME_PATTERN.test(nome)) {
+    return `nome '${nome}' inválido: use apenas letras minúsculas, números e hífen, começando e terminando com letra ou número`;
+  }
+  if (nome.length > NOME_MAX_LENGTH) {
+    return `nome '${nome}' inválido: máximo de ${NOME_MAX_LENGTH} caracteres`;
+  }
+  return null;
+};
+
+const validateDnsNome = (nome) => {
+  if (typeof nome !== 'string' || !nome.split('.').every(label => DNS_LABEL_PATTERN.test(label))) {
+    return `nome '${nome}' inválido: use labels com letras, números, hífen e underscore, separados por ponto`;
+  }
+  if (nome.length > DNS_NOME_MAX_LENGTH) {
+    return `nome '${nome}' inválido: máximo de ${DNS_NOME_MAX_LENGTH} caracteres`;
+  }
+  return null;
+};
+
+const validateRede = (rede) => {
+  if (typeof rede !== 'string' || !REDE_PATTERN.test(rede)) {
+    return `rede '${rede}' inválida: use apenas letras, números, hífen e underscore, começando e terminando com letra ou número`;
+  }
+  if (rede.length > REDE_MAX_LENGTH) {
+    return `rede '${rede}' inválida: máximo de ${REDE_MAX_LENGTH} caracteres`;
+  }
+  return null;
+};
+
+// Middleware para rotas com :nome (rejeita antes de qualquer chamada ao Portainer)
+const validateNomeParam = (req, res, next) => {
+  const error = validateNome(req.params.nome);
+  if (error) {
+    return res.status(400).json({ error: 'Nome inválido', message: error });
+  }
+  next();
+};
+
+// Middleware para rotas de DNS com :nome (o nome do registro pode ter vários labels)
+const validateDnsNomeParam = (req, res, next) => {
+  const error = validateDnsNome(req.params.nome);
+  if (error) {
+    return res.status(400).json({ error: 'Nome inválido', message: error });
+  }
+  next();
+};
+
+const validateComposeFile = (compose, label) => {
+  if (!compose || typeof compose !== 'object') throw new Error(`${label}: compose inválido`);
+  if (typeof compose.version !== 'string') throw new Error(`${label}: 'version' deve ser string`);
+  if (!compose.services || typeof compose.services !== 'object' || Object.keys(compose.services).length === 0) {
+    throw new Error(`${label}: é necessário declarar ao menos um serviço`);
+  }
+  for (const name of Object.keys(compose.services)) {
+    const service = compose.services[name];
+    if (!service || typeof service.image !== 'string') {
+      throw new Error(`${label}: serviço '${name}' precisa de 'image'`);
+    }
+  }
+};
+
+let templateRegistry = new Map();
+
+const validateTemplate = (template, file) => {
+  if (!template || typeof template !== 'object') throw new Error(`${file}: conteúdo inválido`);
+  if (!template.nome) throw new Error(`${file}: campo 'nome' obrigatório`);
+  if (!Array.isArray(template.stacks) || template.stacks.length === 0) {
+    throw new Error(`${file}: é necessário declarar ao menos uma stack em 'stacks'`);
+  }
+  for (const stack of template.stacks) {
+    if (!stack.papel || !stack.nome || !stack.compose) {
+      throw new Error(`${file}: cada stack precisa de 'papel', 'nome' e 'compose'`);
+    }
+    validateComposeFile(stack.compose, `${file} (${stack.papel})`);
+    // O nome da stack só pode depender do nome do tenant (usado na busca e remoção)
+    const names = [...String(stack.nome).matchAll(TEMPLATE_PLACEHOLDER)].map(match => match[1]);
+    if (names.some(name => name !== 'nome')) {
+      throw new Error(`${file}: o nome da stack '${stack.nome}' só pode usar {{nome}}`);
+    }
+    if (stack.publicar !== undefined && !Array.isArray(stack.publicar)) {
+      throw new Error(`${file}: 'publicar' da stack ${stack.papel} deve ser uma lista`);
+    }
+    for (const entry of stack.publicar || []) {
+      if (!entry?.hostname || !entry?.servico) {
+        throw new Error(`${file}: cada item de 'publicar' precisa de 'hostname' e 'servico'`);
+      }
+      // Assim como o nome da stack, o hostname é usado na remoção do tenant
+      const hostnameVars = [...String(entry.hostname).matchAll(TEMPLATE_PLACEHOLDER)].map(match => match[1]);
+      if (hostnameVars.some(name => name !== 'nome')) {
+        throw new Error(`${file}: o hostname '${entry.hostname}' só pode usar {{nome}}`);
+      }
+    }
+  }
+  for (const [param, papel] of Object.entries(template.escala?.replicas || {})) {
+    if (template.parametros?.[param]?.tipo !== 'number') {
+      throw new Error(`${file}: '${param}' em escala.replicas precisa ser um parâmetro numérico`);
+    }
+    if (!template.stacks.some(stack => stack.papel === papel)) {
+      throw new Error(`${file}: escala.replicas.${param} aponta para a stack inexistente '${papel}'`);
+    }
+  }
+  for (const param of template.escala?.recursos || []) {
+    if (!template.parametros?.[param]) {
+      throw new Error(`${file}: '${param}' em escala.recursos não é um parâmetro do template`);
+    }
+  }
+  for (const [param, envName] of Object.entries(template.segredosSwarm || {})) {
+    if (!template.parametros?.[param]?.secreto) {
+      throw new Error(`${file}: '${param}' em segredosSwarm precisa ser um parâmetro com secreto: true`);
+    }
+    if (typeof envName !== 'string' || !/^[A-Z0-9_]+$/.test(envName)) {
+      throw new Error(`${file}: variável '${envName}' de segredosSwarm inválida`);
+    }
+  }
+};
+
+// Carrega (ou recarrega) todos os templates; arquivos inválidos são ignorados e reportados
+const loadTemplates = () => {
+  const loaded = new Map();
+  const errors = [];
+
+  const files = fs.readdirSync(TEMPLATES_DIR)
+    .filter(file => file.endsWith('.yaml') || file.endsWith('.yml'))
+    .sort();
+
+  for (const file of files) {
+    try {
+      const template = YAML.parse(fs.readFileSync(path.join(TEMPLATES_DIR, file), 'utf8'), { merge: true });
+      validateTemplate(template, file);
+      loaded.set(String(template.nome).toLowerCase(), { ...template, arquivo: file });
+    } catch (error) {
+      errors.push({ arquivo: file, error: error.message });
+      console.error(`❌ Erro ao carregar template ${file}:`, error.message);
+    }
+  }
+
+  templateRegistry = loaded;
+  console.log(`🧠 ${loaded.size} template(s) carregado(s) de ${TEMPLATES_DIR}`);
+  return { templates: [...loaded.keys()], errors };
+};
+
+const getTemplate = (tipo) => templateRegistry.get(String(tipo).toLowerCase());
+
+const listTemplates = () => [...templateRegistry.values()];
+
+// 🏷️ Planos de serviço (PLANS_FILE): valores de parâmetros por template, ex: starter, pro, enterprise
+let planRegistry = new Map();
+
+const validatePlan = (nome, plan) => {
+  if (!plan || typeof plan !== 'object') throw new Error(`plano ${nome}: conteúdo inválido`);
+
+  for (const [tipo, values] of Object.entries(plan)) {
+    if (tipo === 'descricao') continue;
+
+    const template = getTemplate(tipo);
+    if (!template) throw new Error(`plano ${nome}: template '${tipo}' não está carregado`);
+    if (!values || typeof values !== 'object') throw new Error(`plano ${nome}: valores de ${tipo} inválidos`);
+
+    for (const param of Object.keys(values)) {
+      const spec = template.parametros?.[param];
+      if (!spec) throw new Error(`plano ${nome}: '${param}' não é parâmetro de ${tipo}`);
+      // Segredos são por tenant, nunca compartilhados por um plano
+      if (spec.secreto) throw new Error(`plano ${nome}: '${param}' de ${tipo} é secreto`);
+    }
+
+    const specs = Object.fromEntries(Object.keys(values).map(param => [param, template.parametros[param]]));
+    const { invalid } = resolveTemplateParams({ parametros: specs }, { config: values });
+    if (invalid.length > 0) throw new Error(`plano ${nome} (${tipo}): ${invalid.join('; ')}`);
+  }
+};
+
+// Carrega (ou recarrega) os planos; depende dos templates já carregados. Planos inválidos são ignorados
+const loadPlans = () => {
+  const loaded = new Map();
+  const errors: { plano: string; error: string }[] = [];
+
+  if (!fs.existsSync(PLANS_FILE)) {
+    planRegistry = loaded;
+    console.log(`🏷️ Nenhum arquivo de planos em ${PLANS_FILE}`);
+    return { planos: [], errors };
+  }
+
+  const content = YAML.parse(fs.readFileSync(PLANS_FILE, 'utf8'), { merge: true }) || {};
+
+  for (const [nome, plan] of Object.entries(content.planos || {})) {
+    try {
+      validatePlan(nome, plan);
+      loaded.set(nome, plan);
+    } catch (error) {
+      errors.push({ plano: nome, error: error.message });
+      console.error(`❌ Erro ao carregar plano ${nome}:`, error.message);
+    }
+  }
+
+  planRegistry = loaded;
+  console.log(`🏷️ ${loaded.size} plano(s) carregado(s) de ${PLANS_FILE}`);
+  return { planos: [...loaded.keys()], errors };
+};
+
+const getPlan = (nome) => planRegistry.get(nome);
+
+// Valores do plano para um template; null se o plano não existe ou não cobre o template
+const getPlanParams = (nome, tipo) => {
+  const plan = getPlan(nome);
+  return plan?.[tipo] && typeof plan[tipo] === 'object' ? plan[tipo] : null;
+};
+
+const listPlansForTemplate = (tipo) => [...planRegistry.entries()]
+  .filter(([, plan]) => plan[tipo])
+  .map(([nome]) => nome);
+
+// Substitui {{param}} recursivamente (chaves e valores); placeholder sem valor é erro.
+// Um valor que é só o placeholder recebe o valor tipado (ex: número), o resto vira texto.
+// A substituição acontece no objeto, nunca no texto YAML: aspas, ':' e quebras de linha em
+// valores são tratadas pelo serializador e não alteram a estrutura do compose.
+const renderTemplateValue = (value, vars): unknown => {
+  if (typeof value === 'string') {
+    if (TEMPLATE_EXACT_PLACEHOLDER.test(value)) {
+      const key = value.replace(TEMPLATE_EXACT_PLACEHOLDER, '$1');
+      if (!(key in vars)) throw new Error(`Parâmetro '${key}' não definido para o template`);
+      return vars[key];
+    }
+    return value.replace(TEMPLATE_PLACEHOLDER, (match, key) => {
+      if (!(key in vars)) throw new Error(`Parâmetro '${key}' não definido para o template`);
+      return String(vars[key]);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplateValue(item, vars));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [renderTemplateValue(key, vars), renderTemplateValue(item, vars)])
+    );
+  }
+  return value;
+};
+
+// Lê e valida os parâmetros declarados no template a partir de config (ou do body, ex: porta)
+// defaults (valores do plano) valem antes do padrão do template e depois dos campos enviados
+const resolveTemplateParams = (template, body, defaults = Object.create(null)) => {
+  const config = body.config || {};
+  const values = [];
+  const missing = [];
+  const invalid = [];
+  const generated = [];
+
+  for (const [name, spec] of Object.entries(template.parametros || {})) {
+    let value = config[name] ?? body[name] ?? defaults[name];
+
+    if ((value === undefined || value === null || value === '') && spec.gerar) {
+      values.push([name, generateSecret(spec.tamanho)]);
+      generated.push(name);
+      continue;
+    }
+
+    if (value === undefined || value === null || value === '') {
+      value = spec.padrao;
+    }
+
+    if (value === undefined || value === null || (value === '' && spec.obrigatorio)) {
+      if (spec.obrigatorio) missing.push(name);
+      continue;
+    }
+
+    if (spec.tipo === 'number') {
+      const number = Number(value);
+      if (!Number.isFinite(number)) {
+        invalid.push(`${name} deve ser numérico`);
+        continue;
+      }
+      if ((spec.min !== undefined && number < spec.min) || (spec.max !== undefined && number > spec.max)) {
+        invalid.push(`${name} deve estar entre ${spec.min} e ${spec.max}`);
+        continue;
+      }
+      value = number;
+    } else if (spec.tipo === 'boolean') {
+      value = value === true || value === 'true';
+    } else {
+      value = String(value);
+      if (CONTROL_CHARS.test(value)) {
+        invalid.push(`${name} não pode conter quebras de linha ou caracteres de controle`);
+        continue;
+      }
+      if (spec.formato && !new RegExp(spec.formato).test(value)) {
+        invalid.push(spec.secreto
+          ? `${name} fora do formato esperado (${spec.formato})`
+          : `${name} '${value}' fora do formato esperado (${spec.formato})`);
+        continue;
+      }
+    }
+
+    values.push([name, value]);
+  }
+
+  return { params: Object.fromEntries(values), missing, invalid, generated };
+};
+
+const getTemplateVars = (nome, rede, params = {}) => ({ ...params, nome, rede, dominio: DOMAIN });
+
+// 🔐 Nome do secret do Swarm para um parâmetro; secrets são imutáveis, então cada rotação cria uma versão nova
+const getSwarmSecretName = (nome, tipo, param, versao) => `${nome}_${tipo}_${param}_v${versao}`;
+
+const getSecretVersion = (secretName) => Number(/_v(\d+)$/.exec(secretName)?.[1] || 1);
+
+// 🔐 Nomes dos secrets na primeira implantação (v1); parâmetros vazios continuam no environment
+const getInitialSwarmSecrets = (nome, template, params) => Object.fromEntries(
+  Object.keys(template.segredosSwarm || {})
+    .filter(param => typeof params[param] === 'string' && params[param].length > 0)
+    .map(param => [param, getSwarmSecretName(nome, template.nome, param, 1)])
+);
+
+// 🔐 Troca VAR=valor por VAR_FILE=/run/secrets/<secret> nos serviços que usam os parâmetros secretos
+// secretNames: { parametro: nomeDoSecret }
+const applySwarmSecrets = (compose: ComposeFile, template, secretNames): ComposeFile => {
+  const envToSecret = Object.fromEntries(
+    Object.entries(template.segredosSwarm || {})
+      .filter(([param]) => secretNames[param])
+      .map(([param, envName]) => [envName, secretNames[param]])
+  );
+  const usedSecrets = new Set<string>();
+
+  const services = Object.fromEntries(Object.entries(compose.services).map(([serviceName, service]) => {
+    const serviceSecrets = new Set<string>(service.secrets || []);
+    let environment = service.environment;
+
+    if (Array.isArray(environment)) {
+      environment = environment.map(entry => {
+        const [envName = ''] = String(entry).split('=');
+        if (!envToSecret[envName]) return entry;
+        serviceSecrets.add(envToSecret[envName]);
+        return `${envName}_FILE=/run/secrets/${envToSecret[envName]}`;
+      });
+    } else if (environment && typeof environment === 'object') {
+      environment = Object.fromEntries(Object.entries(environment).map(([envName, value]) => {
+        if (!envToSecret[envName]) return [envName, value];
+        serviceSecrets.add(envToSecret[envName]);
+        return [`${envName}_FILE`, `/run/secrets/${envToSecret[envName]}`];
+      }));
+    }
+
+    serviceSecrets.forEach(secret => usedSecrets.add(secret));
+    return [serviceName, serviceSecrets.size > 0
+      ? { ...service, environment, secrets: [...serviceSecrets] }
+      : service];
+  }));
+
+  if (usedSecrets.size === 0) return compose;
+
+  return {
+    ...compose,
+    services,
+    secrets: {
+      ...(compose.secrets || {}),
+      ...Object.fromEntries([...usedSecrets].map(secret => [secret, { external: true, name: secret }]))
+    }
+  };
+};
+
+// Renderiza todas as stacks do template: nome, compose (objeto e YAML) e dados de saída
+const renderTemplateStacks = (template, { nome, rede, params, secretNames }) => {
+  const vars = getTemplateVars(nome, rede, params);
+
+  return template.stacks.map(stack => {
+    let compose = renderTemplateValue(stack.compose, vars) as ComposeFile;
+    if (secretNames) compose = applySwarmSecrets(compose, template, secretNames);
+    validateComposeFile(compose, stack.papel);
+    return {
+      papel: stack.papel,
+      nome: renderTemplateValue(stack.nome, vars),
+      compose,
+      // YAML 1.1 faz o serializador citar valores como "yes"/"on", que o Docker leria como booleanos
+      content: YAML.stringify(compose, { lineWidth: 0, version: '1.1' }),
+      saida: renderTemplateValue(stack.saida || {}, vars),
+      publicar: renderTemplateValue(stack.publicar || [], vars)
+    };
+  });
+};
+
+const renderTemplateUrls = (template, nome, params) => template.urls
+  ? renderTemplateValue(template.urls, getTemplateVars(nome, undefined, params))
+  : undefined;
+
+// Campos sensíveis declarados nos templates (secreto: true)
+const getTemplateSecretFields = (template) => Object.entries(template?.parametros || {})
+  .filter(([, spec]) => spec.secreto)
+  .map(([name]) => name);
+
+// 🔑 Segredo aleatório para parâmetros com gerar: true (base64url, seguro em comandos e env)
+const generateSecret = (length = 32) => crypto.randomBytes(Math.ceil(length * 3 / 4) + 1)
+  .toString('base64url')
+  .slice(0, length);
+
+// 🔑 Substitui os valores secretos por ******** em qualquer estrutura (usado no dry-run)
+const SECRET_MASK = '********';
+
+const maskSecretValues = (value, secrets): unknown => {
+  if (typeof value === 'string') {
+    return secrets.reduce((text, secret) => text.split(secret).join(SECRET_MASK), value);
+  }
+  if (Array.isArray(value)) return value.map(item => maskSecretValues(item, secrets));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, maskSecretValues(item, secrets)]));
+  }
+  return value;
+};
+
+const getSecretValues = (template, params) => getTemplateSecretFields(template)
+  .map(name => params[name])
+  .filter(value => typeof value === 'string' && value.length > 0);
+
+// 🆔 Busca o Swarm ID do endpoint
+const getSwarmId = async (endpointId, headers) => {
+  console.log('📡 Buscando Swarm ID...');
+  const swarmResponse = await axios.get(
+    `${PORTAINER_URL}/api/endpoints/${endpointId}/docker/swarm`,
+    { headers, httpsAgent }
+  );
+  console.log('🆔 Swarm ID encontrado:', swarmResponse.data.ID);
+  return swarmResponse.data.ID;
+};
+
+// 📦 Monta a requisição de criação de stack no Portainer (usada também no dry-run)
+const buildStackCreateRequest = (stackName, stackContent, swarmId, endpointId) => ({
+  metodo: 'POST',
+  url: `${PORTAINER_URL}/api/stacks/create/swarm/string?endpointId=${endpointId}`,
+  payload: {
+    name: stackName,
+    stackFileContent: stackContent,
+    env: [],
+    swarmID: swarmId
+  }
+});
+
+// 🆕 Função para criar stack individual no Portainer
+const createSingleStack = async (stackName, stackContent, swarmId, endpointId, headers) => {
+  const { url, payload } = buildStackCreateRequest(stackName, stackContent, swarmId, endpointId);
+
+  console.log(`🔗 Criando stack: ${stackName}`);
+
+  const response = await axios.post(url, payload, {
     headers,
-    httpsAgent
+    httpsAgent,
+    timeout: PORTAINER_STACK_TIMEOUT_MS
   });
 
   console.log(`✅ Stack ${stackName} criada com sucesso`);
   return response.data;
 };
 
-// 🆕 Função auxiliar para aguardar com timeout
-const waitWithTimeout = (promise, timeoutMs) => {
-  return Promise.race([
-    promise,
-    new Promise((resolve) => setTimeout(() => resolve({ timeout: true }), timeoutMs))
-  ]);
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 🆕 Aguarda a stack aparecer na listagem do Portainer (usado quando a criação estoura o timeout)
+const waitForStack = async (stackName, headers, timeoutMs = 60000, intervalMs = 5000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const stacks = await listPortainerStacks(headers);
+    const stack = stacks.find(item => item.Name === stackName);
+    if (stack) return stack;
+    await sleep(intervalMs);
+  }
+  return null;
 };
 
-// 📦 Endpoint para criar stack (Redis ou N8N completo com 3 stacks separadas)
-app.post('/api/stack', authenticateToken, async (req, res) => {
+// 🆕 Cria a stack e confirma o estado real no Portainer
+// - 'confirmado': o Portainer respondeu com sucesso ou a stack apareceu na listagem após timeout
+// - 'criado': a requisição foi enviada, estourou o timeout e a stack ainda não apareceu
+const createStackConfirmed = async (stackName, stackContent, swarmId, endpointId, headers) => {
   try {
-    const { nome, tipo, rede, porta, endpointId = PORTAINER_ENDPOINT_ID, config = {} } = req.body;
+    const data = await createSingleStack(stackName, stackContent, swarmId, endpointId, headers);
+    incrementCounter('stackflow_stacks_created_total', { resultado: 'confirmado' });
+    return { id: data.Id, status: 'confirmado', data };
+  } catch (error) {
+    if (error.code !== 'ECONNABORTED' && error.code !== 'ETIMEDOUT') {
+      throw error;
+    }
 
-    if (!nome || !tipo || !rede) {
-      return res.status(400).json({ error: 'Campos obrigatórios: nome, tipo, rede' });
+    console.log(`⏳ Timeout ao criar ${stackName}, verificando no Portainer...`);
+    const stack = await waitForStack(stackName, headers);
+
+    if (stack) {
+      console.log(`✅ Stack ${stackName} confirmada no Portainer`);
+      incrementCounter('stackflow_stacks_created_total', { resultado: 'confirmado' });
+      return { id: stack.Id, status: 'confirmado' };
     }
 
-    // Obter headers com JWT válido
-    const headers = await getPortainerHeaders();
+    console.log(`⚠️ Stack ${stackName} não confirmada no Portainer`);
+    incrementCounter('stackflow_stacks_created_total', { resultado: 'criado' });
+    return { status: 'criado' };
+  }
+};
 
-    // Pegar Swarm ID do endpoint
-    console.log('📡 Buscando Swarm ID...');
-    const swarmResponse = await axios.get(
-      `${PORTAINER_URL}/api/endpoints/${endpointId}/docker/swarm`,
-      { headers, httpsAgent }
-    );
-    const swarmId = swarmResponse.data.ID;
-    console.log('🆔 Swarm ID encontrado:', swarmId);
+// 🆕 Nomes de todas as stacks que podem pertencer a um tenant (declaradas nos templates)
+const getTenantStackNames = (nome) => listTemplates().flatMap(template =>
+  template.stacks.map(stack => renderTemplateValue(stack.nome, { nome }))
+);
 
-    const tipoLower = tipo.toLowerCase();
+// 🆕 Hostnames de túnel e registros DNS (relativos ao domínio) que podem pertencer a um tenant
+const getTenantHostnames = (nome) => [...new Set(listTemplates().flatMap(template =>
+  template.stacks.flatMap(stack =>
+    (stack.publicar || []).map(entry => renderTemplateValue(entry.hostname, { nome }))
+  )
+))];
 
-    // Redis - Stack única
-    if (tipoLower === 'redis') {
-      const portaFinal = porta || 6379;
-      if (portaFinal < 1024 || portaFinal > 65535) {
-        return res.status(400).json({
-          error: 'Porta inválida',
-          message: 'A porta deve estar entre 1024 e 65535'
-        });
-      }
+// 🚇 Adiciona o DOMAIN ao hostname se não estiver presente
+const getFullHostname = (hostname) => hostname.includes('.') && hostname.split('.').length > 2
+  ? hostname
+  : `${hostname}.${DOMAIN}`;
+
+// 🚇 Destino dos registros DNS que apontam para o túnel
+const getTunnelTarget = () => `${CLOUDFLARE_TUNNEL_ID}.cfargotunnel.com`;
+
+// 🆕 Função para listar stacks no Portainer
+const listPortainerStacks = async (headers) => {
+  const response = await axios.get(`${PORTAINER_URL}/api/stacks`, {
+    headers,
+    httpsAgent
+  });
+  return response.data || [];
+};
+
+// 🆕 Função para remover stack no Portainer
+const deletePortainerStack = async (stack, headers) => {
+  console.log(`🗑️ Removendo stack: ${stack.Name}`);
+
+  await axios.delete(`${PORTAINER_URL}/api/stacks/${stack.Id}?endpointId=${stack.EndpointId}`, {
+    headers,
+    httpsAgent
+  });
 
-      const stackContent = getStackTemplate('redis', nome, rede, { porta: portaFinal });
-      const stackName = `redis-${nome}`;
+  console.log(`✅ Stack ${stack.Name} removida com sucesso`);
+};
+
+// 🧱 Redes e volumes externos declarados nos composes das stacks
+const getExternalResources = (stacks) => {
+  const redes = new Set();
+  const volumes = new Set();
+
+  for (const stack of stacks) {
+    const networks = stack.compose.networks || {};
+    for (const key of Object.keys(networks)) {
+      if (networks[key]?.external) redes.add(networks[key].name || key);
+    }
+    const composeVolumes = stack.compose.volumes || {};
+    for (const key of Object.keys(composeVolumes)) {
+      if (composeVolumes[key]?.external) volumes.add(composeVolumes[key].name || key);
+    }
+  }
+
+  return { redes: [...redes], volumes: [...volumes] };
+};
+
+// 🧱 Busca uma rede pelo nome exato (o filtro do Docker também casa prefixos)
+const findDockerNetwork = async (networkName, endpointId, headers) => {
+  const response = await axios.get(`${PORTAINER_URL}/api/endpoints/${endpointId}/docker/networks`, {
+    headers,
+    httpsAgent,
+    params: { filters: JSON.stringify({ name: [networkName] }) }
+  });
+  return (response.data || []).find(network => network.Name === networkName) || null;
+};
+
+const createDockerNetwork = async (networkName, endpointId, headers) => {
+  await axios.post(`${PORTAINER_URL}/api/endpoints/${endpointId}/docker/networks/create`, {
+    Name: networkName,
+    Driver: 'overlay',
+    Attachable: true,
+    CheckDuplicate: true
+  }, { headers, httpsAgent });
+  console.log(`✅ Rede overlay ${networkName} criada`);
+};
+
+const removeDockerNetwork = async (networkName, endpointId, headers) => {
+  await axios.delete(`${PORTAINER_URL}/api/endpoints/${endpointId}/docker/networks/${networkName}`, {
+    headers,
+    httpsAgent
+  });
+  console.log(`✅ Rede ${networkName} removida`);
+};
+
+const findDockerVolume = async (volumeName, endpointId, headers) => {
+  try {
+    const response = await axios.get(`${PORTAINER_URL}/api/endpoints/${endpointId}/docker/volumes/${volumeName}`, {
+      headers,
+      httpsAgent
+    });
+    return response.data;
+  } catch (error) {
+    if (error.response?.status === 404) return null;
+    throw error;
+  }
+};
+
+const createDockerVolume = async (volumeName, endpointId, headers) => {
+  await axios.post(`${PORTAINER_URL}/api/endpoints/${endpointId}/docker/volumes/create`, {
+    Name: volumeName,
+    Driver: 'local'
+  }, { headers, httpsAgent });
+  console.log(`✅ Volume ${volumeName} criado`);
+};
+
+// 🧱 Situação atual das redes e volumes externos (somente leitura)
+// Redes que não são overlay não podem ser usadas por stacks do Swarm
+const inspectExternalResources = async (stacks, endpointId, headers) => {
+  const { redes, volumes } = getExternalResources(stacks);
+
+  const networkState = [];
+  for (const networkName of redes) {
+    const network = await findDockerNetwork(networkName, endpointId, headers);
+    networkState.push({
+      nome: networkName,
+      existente: !!network,
+      erro: network && network.Driver !== 'overlay'
+        ? `Rede '${networkName}' existe com driver ${network.Driver}; stacks do Swarm exigem overlay`
+        : null
+    });
+  }
+
+  const volumeState = [];
+  for (const volumeName of volumes) {
+    volumeState.push({ nome: volumeName, existente: !!(await findDockerVolume(volumeName, endpointId, headers)) });
+  }
+
+  return { redes: networkState, volumes: volumeState };
+};
+
+// 🧱 Pré-checagem do deploy: reutiliza ou cria redes overlay e volumes externos
+// Recursos criados entram na pilha de rollback
+const runPreflight = async (stacks, endpointId, headers, { criarRede, undoStack }) => {
+  const state = await inspectExternalResources(stacks, endpointId, headers);
+  const redes = [];
+  const volumes = [];
+
+  for (const network of state.redes) {
+    if (network.erro) throw new Error(network.erro);
+
+    if (network.existente) {
+      redes.push({ nome: network.nome, status: 'reutilizada' });
+      continue;
+    }
+
+    if (!criarRede) {
+      throw new Error(`Rede '${network.nome}' não existe no Swarm; crie-a ou envie criarRede: true`);
+    }
+
+    await createDockerNetwork(network.nome, endpointId, headers);
+    undoStack.push({ recurso: 'rede', nome: network.nome, desfazer: () => removeDockerNetwork(network.nome, endpointId, headers) });
+    redes.push({ nome: network.nome, status: 'criada' });
+  }
+
+  for (const volume of state.volumes) {
+    if (volume.existente) {
+      volumes.push({ nome: volume.nome, status: 'reutilizado' });
+      continue;
+    }
+
+    await createDockerVolume(volume.nome, endpointId, headers);
+    undoStack.push({ recurso: 'volume', nome: volume.nome, desfazer: () => removeDockerVolume(volume.nome, endpointId, headers) });
+    volumes.push({ nome: volume.nome, status: 'criado' });
+  }
+
+  return { redes, volumes };
+};
+
+// 🔐 Cria um secret no Swarm via proxy do Portainer (o valor vai em base64 e nunca é logado)
+const createDockerSecret = async (secretName, value, labels, endpointId, headers) => {
+  const response = await axios.post(`${PORTAINER_URL}/api/endpoints/${endpointId}/docker/secrets/create`, {
+    Name: secretName,
+    Data: Buffer.from(String(value)).toString('base64'),
+    Labels: labels
+  }, { headers, httpsAgent });
+
+  console.log(`✅ Secret ${secretName} criado`);
+  return response.data.ID;
+};
+
+const listDockerSecrets = async (endpointId, headers) => {
+  const response = await axios.get(`${PORTAINER_URL}/api/endpoints/${endpointId}/docker/secrets`, {
+    headers,
+    httpsAgent
+  });
+  return response.data || [];
+};
+
+// 🔐 Remove um secret do Swarm; enquanto houver task usando o secret o Docker recusa a remoção
+const removeDockerSecret = async (secretName, endpointId, headers, attempts = 6) => {
+  // Sem condição de parada: a última tentativa recusada relança o erro
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await axios.delete(`${PORTAINER_URL}/api/endpoints/${endpointId}/docker/secrets/${secretName}`, {
+        headers,
+        httpsAgent
+      });
+      console.log(`✅ Secret ${secretName} removido`);
+      return { removed: true };
+    } catch (error) {
+      if (error.response?.status === 404) {
+        return { removed: false };
+      }
+      if ([400, 409].includes(error.response?.status) && attempt < attempts) {
+        console.log(`⏳ Secret ${secretName} ainda em uso, tentando novamente (${attempt}/${attempts})...`);
+        await sleep(5000);
+        continue;
+      }
+      throw error;
+    }
+  }
+};
+
+// 📄 Conteúdo atual do compose de uma stack no Portainer
+const getPortainerStackFile = async (stack, headers) => {
+  const response = await axios.get(`${PORTAINER_URL}/api/stacks/${stack.Id}/file`, {
+    headers,
+    httpsAgent
+  });
+  return response.data.StackFileContent;
+};
+
+// 🔄 Atualiza o compose de uma stack existente e reimplanta os serviços
+const updatePortainerStack = async (stack, stackContent, headers) => {
+  console.log(`🔄 Atualizando stack: ${stack.Name}`);
+
+  const response = await axios.put(`${PORTAINER_URL}/api/stacks/${stack.Id}?endpointId=${stack.EndpointId}`, {
+    stackFileContent: stackContent,
+    env: stack.Env || [],
+    prune: false,
+    pullImage: false
+  }, {
+    headers,
+    httpsAgent,
+    timeout: PORTAINER_STACK_TIMEOUT_MS
+  });
+
+  console.log(`✅ Stack ${stack.Name} atualizada`);
+  return response.data;
+};
+
+// 📏 Altera o número de réplicas de um serviço do Swarm sem reimplantar a stack
+const scaleDockerService = async (serviceId, replicas, endpointId, headers) => {
+  const baseUrl = `${PORTAINER_URL}/api/endpoints/${endpointId}/docker/services/${serviceId}`;
+  const { data: service } = await axios.get(baseUrl, { headers, httpsAgent });
+
+  if (!service.Spec?.Mode?.Replicated) {
+    throw new Error(`Serviço ${service.Spec?.Name || serviceId} não está em modo replicated`);
+  }
+
+  const spec = { ...service.Spec, Mode: { Replicated: { Replicas: replicas } } };
+  await axios.post(
+    `${PORTAINER_URL}/api/endpoints/${endpointId}/docker/services/${service.ID}/update?version=${service.Version.Index}`,
+    spec,
+    { headers, httpsAgent }
+  );
+
+  console.log(`📏 Serviço ${service.Spec.Name} escalado para ${replicas} réplica(s)`);
+};
+
+// 🔄 Reinicia as tasks de um serviço (equivalente a docker service update --force)
+const restartDockerService = async (serviceId, endpointId, headers) => {
+  const baseUrl = `${PORTAINER_URL}/api/endpoints/${endpointId}/docker/services/${serviceId}`;
+  const { data: service } = await axios.get(baseUrl, { headers, httpsAgent });
+
+  const taskTemplate = service.Spec.TaskTemplate || {};
+  const spec = { ...service.Spec, TaskTemplate: { ...taskTemplate, ForceUpdate: (taskTemplate.ForceUpdate || 0) + 1 } };
+  await axios.post(
+    `${PORTAINER_URL}/api/endpoints/${endpointId}/docker/services/${service.ID}/update?version=${service.Version.Index}`,
+    spec,
+    { headers, httpsAgent }
+  );
+
+  console.log(`🔄 Serviço ${service.Spec.Name} reiniciado`);
+};
+
+// 🆕 Função para remover volume Docker via proxy do Portainer
+// O Swarm demora alguns segundos para parar os containers da stack removida,
+// então o Docker responde 409 (volume em uso) até lá.
+const removeDockerVolume = async (volumeName, endpointId, headers, attempts = 6) => {
+  // Só sai por return ou throw: a última tentativa relança o erro
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await axios.delete(`${PORTAINER_URL}/api/endpoints/${endpointId}/docker/volumes/${volumeName}`, {
+        headers,
+        httpsAgent
+      });
+      console.log(`✅ Volume ${volumeName} removido`);
+      return { removed: true };
+    } catch (error) {
+      if (error.response?.status === 404) {
+        return { removed: false };
+      }
+      if (error.response?.status === 409 && attempt < attempts) {
+        console.log(`⏳ Volume ${volumeName} ainda em uso, tentando novamente (${attempt}/${attempts})...`);
+        await sleep(5000);
+        continue;
+      }
+      throw error;
+    }
+  }
+};
+
+// 🩺 Convergência dos serviços Swarm (via proxy Docker do Portainer)
+// Número de tasks com falha a partir do qual um serviço sem réplicas suficientes é considerado em crash loop
+const CRASH_LOOP_THRESHOLD = 3;
+
+const getStackServices = async (stackName, endpointId, headers) => {
+  const filters = JSON.stringify({ label: [`com.docker.stack.namespace=${stackName}`] });
+  const response = await axios.get(
+    `${PORTAINER_URL}/api/endpoints/${endpointId}/docker/services?filters=${encodeURIComponent(filters)}`,
+    { headers, httpsAgent }
+  );
+  return response.data || [];
+};
+
+const getServiceTasks = async (serviceId, endpointId, headers) => {
+  const filters = JSON.stringify({ service: [serviceId] });
+  const response = await axios.get(
+    `${PORTAINER_URL}/api/endpoints/${endpointId}/docker/tasks?filters=${encodeURIComponent(filters)}`,
+    { headers, httpsAgent }
+  );
+  return response.data || [];
+};
+
+// 📜 Logs de serviço via proxy Docker do Portainer
+// Sem TTY o Docker multiplexa stdout/stderr em frames: [stream, 0, 0, 0, tamanho (uint32 BE)] + conteúdo
+const DOCKER_LOG_STREAMS = ['stdin', 'stdout', 'stderr'];
+const LOGS_MAX_TAIL = 5000;
+const LOGS_MAX_GREP = 200;
+const LOGS_HEARTBEAT_MS = 15000;
+// Segundos por unidade das durações relativas de since (30s, 15m, 2h, 1d)
+const LOGS_SINCE_UNITS = new Map(Object.entries({ s: 1, m: 60, h: 3600, d: 86400 }));
+
+const isMultiplexedLog = (buffer) =>
+  buffer.length >= 8 && buffer[0] <= 2 && buffer[1] === 0 && buffer[2] === 0 && buffer[3] === 0;
+
+// Separa os frames completos; um frame incompleto volta em rest para a próxima leitura
+const demuxDockerLogs = (buffer) => {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 8) {
+    const size = buffer.readUInt32BE(offset + 4);
+    if (buffer.length - offset - 8 < size) break;
+    frames.push({
+      stream: DOCKER_LOG_STREAMS[buffer[offset]] || 'stdout',
+      text: buffer.subarray(offset + 8, offset + 8 + size).toString('utf8')
+    });
+    offset += 8 + size;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// Com timestamps=1 cada linha começa com "2024-01-01T00:00:00.000000000Z "
+const parseLogLine = (line, servico, stream) => {
+  const [timestamp] = /^\d{4}-\d{2}-\d{2}T\S+Z(?= )/.exec(line) || [];
+  return {
+    timestamp: timestamp || null,
+    servico,
+    stream,
+    mensagem: timestamp ? line.slice(timestamp.length + 1) : line
+  };
+};
+
+// Leitor incremental: push recebe pedaços da resposta e devolve as linhas completas; flush devolve o resto
+const createLogReader = (servico) => {
+  let pending = Buffer.alloc(0);
+  let multiplexed: boolean | null = null;
+  // Última linha ainda sem '\n' de cada stream
+  const partial = new Map();
+
+  const toEntries = (pieces) => pieces.flatMap(piece => {
+    const lines = ((partial.get(piece.stream) || '') + piece.text).split('\n');
+    partial.set(piece.stream, lines.pop());
+    return lines
+      .map(line => line.replace(/\r$/, ''))
+      .filter(line => line.length > 0)
+      .map(line => parseLogLine(line, servico, piece.stream));
+  });
+
+  return {
+    push: (chunk) => {
+      pending = Buffer.concat([pending, chunk]);
+      if (multiplexed === null) {
+        if (pending.length < 8) return [];
+        multiplexed = isMultiplexedLog(pending);
+      }
+      if (!multiplexed) {
+        const text = pending.toString('utf8');
+        pending = Buffer.alloc(0);
+        return toEntries([{ stream: 'stdout', text }]);
+      }
+      const { frames, rest } = demuxDockerLogs(pending);
+      pending = rest;
+      return toEntries(frames);
+    },
+    flush: () => {
+      const entries = multiplexed === null && pending.length > 0
+        ? toEntries([{ stream: 'stdout', text: pending.toString('utf8') }])
+        : [];
+      for (const [stream, text] of partial) {
+        if (text) entries.push(parseLogLine(text, servico, stream));
+      }
+      partial.clear();
+      return entries;
+    }
+  };
+};
+
+// since: duração relativa (30s, 15m, 2h, 1d), data ISO ou timestamp unix; null se inválido
+const parseLogSince = (since) => {
+  if (since === undefined || since === '') return 0;
+
+  const relative = /^(\d+)([smhd])$/.exec(since);
+  const seconds = LOGS_SINCE_UNITS.get(String(relative?.[2]));
+  if (relative && seconds) {
+    return Math.floor(Date.now() / 1000) - Number(relative[1]) * seconds;
+  }
+  if (/^\d+$/.test(since)) return Number(since);
+
+  const date = Date.parse(since);
+  return Number.isNaN(date) ? null : Math.floor(date / 1000);
+};
+
+const getServiceLogsUrl = (serviceId, endpointId, { since, tail, follow = false }) =>
+  `${PORTAINER_URL}/api/endpoints/${endpointId}/docker/services/${serviceId}/logs` +
+  `?stdout=1&stderr=1&timestamps=1&since=${since}&tail=${tail}&follow=${follow ? 1 : 0}`;
+
+const getServiceLogs = async (service, endpointId, headers, options) => {
+  const response = await axios.get(getServiceLogsUrl(service.ID, endpointId, options), {
+    headers,
+    httpsAgent,
+    responseType: 'arraybuffer'
+  });
+  const reader = createLogReader(service.Spec.Name);
+  return [...reader.push(Buffer.from(response.data)), ...reader.flush()];
+};
+
+// 📜 Modo SSE: uma conexão follow por serviço; cada linha vira um evento "log"
+// As conexões com o Portainer são fechadas quando o cliente desconecta
+const streamServiceLogs = async (res, services, endpointId, headers, options, matches) => {
+  const streams: import('stream').Readable[] = [];
+  let closed = false;
+
+  res.on('close', () => {
+    closed = true;
+    streams.forEach(stream => stream.destroy());
+  });
+
+  for (const service of services) {
+    const response = await axios.get(getServiceLogsUrl(service.ID, endpointId, { ...options, follow: true }), {
+      headers,
+      httpsAgent,
+      responseType: 'stream'
+    });
+    streams.push(response.data);
+    if (closed) {
+      response.data.destroy();
+      return;
+    }
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(`event: inicio\ndata: ${JSON.stringify({ servicos: services.map(service => service.Spec.Name) })}\n\n`);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), LOGS_HEARTBEAT_MS);
+  let active = streams.length;
+
+  const send = (entries) => entries
+    .filter(matches)
+    .forEach(entry => res.write(`event: log\ndata: ${JSON.stringify(entry)}\n\n`));
+
+  streams.forEach((stream, index) => {
+    const servico = services[index].Spec.Name;
+    const reader = createLogReader(servico);
+
+    stream.on('data', chunk => send(reader.push(chunk)));
+    stream.on('error', error => {
+      if (!closed) res.write(`event: erro\ndata: ${JSON.stringify({ servico, message: error.message })}\n\n`);
+    });
+    // O stream termina quando o serviço é removido ou o Portainer fecha a conexão
+    stream.on('close', () => {
+      if (closed) return;
+      send(reader.flush());
+      res.write(`event: fim\ndata: ${JSON.stringify({ servico })}\n\n`);
+      active -= 1;
+      if (active === 0) {
+        clearInterval(heartbeat);
+        res.end();
+      }
+    });
+  });
+
+  res.on('close', () => clearInterval(heartbeat));
+};
+
+// Classifica um serviço: convergido, iniciando, crash_loop ou rollback
+const evaluateService = (service, tasks) => {
+  const activeTasks = tasks.filter(task => task.DesiredState === 'running');
+  const running = activeTasks.filter(task => task.Status?.State === 'running').length;
+  const desired = service.Spec?.Mode?.Replicated
+    ? service.Spec.Mode.Replicated.Replicas ?? 1
+    : activeTasks.length;
+
+  const failedTasks = tasks
+    .filter(task => ['failed', 'rejected'].includes(task.Status?.State))
+    .sort((a, b) => new Date(b.Status?.Timestamp || 0).getTime() - new Date(a.Status?.Timestamp || 0).getTime());
+  const lastFailure = failedTasks[0];
+
+  const updateState = service.UpdateStatus?.State;
+
+  const result = {
+    nome: service.Spec?.Name,
+    id: service.ID,
+    replicas: { desejadas: desired, rodando: running },
+    tasksComFalha: failedTasks.length,
+    ultimoErro: lastFailure ? (lastFailure.Status?.Err || lastFailure.Status?.Message) : undefined
+  };
+
+  if (updateState && updateState.startsWith('rollback')) {
+    return { ...result, status: 'rollback', mensagem: service.UpdateStatus?.Message };
+  }
+
+  if (running >= desired && updateState !== 'updating') {
+    return { ...result, status: 'convergido' };
+  }
+
+  if (failedTasks.length >= CRASH_LOOP_THRESHOLD) {
+    return { ...result, status: 'crash_loop' };
+  }
+
+  return { ...result, status: 'iniciando' };
+};
+
+// Prioridade do status agregado: o pior estado entre os serviços vence
+const aggregateConvergenceStatus = (statuses) => {
+  if (statuses.length === 0) return 'iniciando';
+  if (statuses.includes('rollback')) return 'rollback';
+  if (statuses.includes('crash_loop')) return 'crash_loop';
+  if (statuses.every(status => status === 'convergido')) return 'convergido';
+  return 'iniciando';
+};
+
+// 🆕 Verifica uma vez a convergência de todos os serviços de uma stack
+const checkStackConvergence = async (stackName, endpointId, headers) => {
+  const services = await getStackServices(stackName, endpointId, headers);
+
+  const servicos = [];
+  for (const service of services) {
+    const tasks = await getServiceTasks(service.ID, endpointId, headers);
+    servicos.push(evaluateService(service, tasks));
+  }
+
+  return {
+    stack: stackName,
+    status: aggregateConvergenceStatus(servicos.map(servico => servico.status)),
+    servicos
+  };
+};
+
+// 🆕 Faz polling até todas as stacks convergirem, falharem ou o tempo acabar
+const waitForConvergence = async (stackNames, endpointId, headers, timeoutMs = CONVERGENCE_TIMEOUT_MS) => {
+  const deadline = Date.now() + timeoutMs;
+  let results = [];
+
+  while (true) {
+    results = [];
+    for (const stackName of stackNames) {
+      results.push(await checkStackConvergence(stackName, endpointId, headers));
+    }
+
+    const pending = results.some(result => result.status === 'iniciando');
+    if (!pending || Date.now() >= deadline) break;
+
+    await sleep(CONVERGENCE_INTERVAL_MS);
+  }
+
+  return {
+    status: aggregateConvergenceStatus(results.map(result => result.status)),
+    stacks: results
+  };
+};
+
+// 🗂️ Registro de tenants
+// Um tenant (nome) pode ter mais de um serviço (ex: redis e n8n); cada um guarda rede, endpoint,
+// config e URLs em `servicos`. Campos sensíveis da config (parâmetros `secreto` do template)
+// ficam só em `segredos`, criptografados.
+const splitSecrets = (config, secretFields) => {
+  const entries = Object.entries(config || {});
+  return {
+    publicConfig: Object.fromEntries(entries.filter(([key]) => !secretFields.includes(key))),
+    secrets: Object.fromEntries(entries.filter(([key]) => secretFields.includes(key)))
+  };
+};
+
+const rowToTenant = (row) => ({
+  nome: row.nome,
+  status: row.status,
+  servicos: JSON.parse(row.servicos),
+  suspensao: row.suspensao ? JSON.parse(row.suspensao) : undefined,
+  criadoEm: row.criado_em,
+  atualizadoEm: row.atualizado_em
+});
+
+const listTenantResources = (nome) => db
+  .query('SELECT * FROM tenant_recursos WHERE tenant = ? ORDER BY id')
+  .all(nome)
+  .map(row => ({
+    tipo: row.tipo,
+    nome: row.nome,
+    externoId: row.externo_id,
+    dados: row.dados ? JSON.parse(row.dados) : undefined,
+    criadoEm: row.criado_em
+  }));
+
+const listTenants = () => db
+  .query('SELECT * FROM tenants ORDER BY nome')
+  .all()
+  .map(rowToTenant);
+
+const getTenant = (nome) => {
+  const row = db.query('SELECT * FROM tenants WHERE nome = ?').get(nome);
+  if (!row) return null;
+
+  const tenant = rowToTenant(row);
+  const secrets = row.segredos ? JSON.parse(decryptSecret(row.segredos)) : {};
+
+  return {
+    ...tenant,
+    segredosArmazenados: Object.fromEntries(
+      Object.keys(secrets).map(tipo => [tipo, Object.keys(secrets[tipo])])
+    ),
+    recursos: listTenantResources(nome)
+  };
+};
+
+// Segredos descriptografados, por tipo de serviço (uso interno, nunca retornar em listagens)
+const getTenantSecrets = (nome) => {
+  const row = db.query('SELECT segredos FROM tenants WHERE nome = ?').get(nome);
+  return row?.segredos ? JSON.parse(decryptSecret(row.segredos)) : {};
+};
+
+const saveTenantService = (nome, tipo, { rede, endpointId, config = {}, urls, segredosSwarm = false, plano = null }) => {
+  const now = new Date().toISOString();
+  const row = db.query('SELECT * FROM tenants WHERE nome = ?').get(nome);
+  const servicos = row ? JSON.parse(row.servicos) : {};
+  const segredos = getTenantSecrets(nome);
+
+  const { publicConfig, secrets } = splitSecrets(config, getTemplateSecretFields(getTemplate(tipo)));
+  servicos[tipo] = { rede, endpointId, plano: plano || undefined, config: publicConfig, urls, segredosSwarm: segredosSwarm || undefined };
+  segredos[tipo] = secrets;
+
+  db.query(`
+    INSERT INTO tenants (nome, status, servicos, segredos, criado_em, atualizado_em)
+    VALUES ($nome, 'ativo', $servicos, $segredos, $now, $now)
+    ON CONFLICT(nome) DO UPDATE SET
+      servicos = excluded.servicos,
+      segredos = excluded.segredos,
+      atualizado_em = excluded.atualizado_em
+  `).run({
+    $nome: nome,
+    $servicos: JSON.stringify(servicos),
+    $segredos: encryptSecret(JSON.stringify(segredos)),
+    $now: now
+  });
+};
+
+const removeTenantService = (nome, tipo) => {
+  const row = db.query('SELECT * FROM tenants WHERE nome = ?').get(nome);
+  if (!row) return;
+
+  const servicos = JSON.parse(row.servicos);
+  const segredos = getTenantSecrets(nome);
+  delete servicos[tipo];
+  delete segredos[tipo];
+
+  if (Object.keys(servicos).length === 0 && listTenantResources(nome).length === 0) {
+    deleteTenant(nome);
+    return;
+  }
+
+  db.query('UPDATE tenants SET servicos = ?, segredos = ?, atualizado_em = ? WHERE nome = ?').run(
+    JSON.stringify(servicos),
+    encryptSecret(JSON.stringify(segredos)),
+    new Date().toISOString(),
+    nome
+  );
+};
+
+// ⏸️ suspensao guarda réplicas e hostnames anteriores; null reativa o tenant
+const setTenantSuspension = (nome, suspensao) => {
+  db.query('UPDATE tenants SET status = ?, suspensao = ?, atualizado_em = ? WHERE nome = ?').run(
+    suspensao ? 'suspenso' : 'ativo',
+    suspensao ? JSON.stringify(suspensao) : null,
+    new Date().toISOString(),
+    nome
+  );
+};
+
+const deleteTenant = (nome) => {
+  db.query('DELETE FROM tenant_recursos WHERE tenant = ?').run(nome);
+  db.query('DELETE FROM tenants WHERE nome = ?').run(nome);
+};
+
+// Recursos externos do tenant: stack (Portainer), tunel (hostname), dns (registro), volume
+const recordTenantResource = (tenant, tipo, nome, externoId, dados) => {
+  db.query(`
+    INSERT INTO tenant_recursos (tenant, tipo, nome, externo_id, dados, criado_em)
+    VALUES ($tenant, $tipo, $nome, $externoId, $dados, $criadoEm)
+    ON CONFLICT(tenant, tipo, nome) DO UPDATE SET
+      externo_id = excluded.externo_id,
+      dados = excluded.dados
+  `).run({
+    $tenant: tenant,
+    $tipo: tipo,
+    $nome: nome,
+    $externoId: externoId != null ? String(externoId) : null,
+    $dados: dados ? JSON.stringify(dados) : null,
+    $criadoEm: new Date().toISOString()
+  });
+};
+
+const removeTenantResource = (tenant, tipo, nome) => {
+  db.query('DELETE FROM tenant_recursos WHERE tenant = ? AND tipo = ? AND nome = ?').run(tenant, tipo, nome);
+};
+
+// Tenants que registraram o recurso (para alterações feitas fora das rotas do tenant)
+const findResourceTenants = (tipo, nome) => db
+  .query('SELECT tenant FROM tenant_recursos WHERE tipo = ? AND nome = ?')
+  .all(tipo, nome)
+  .map(row => row.tenant);
+
+// 📋 Jobs de provisionamento (executam em segundo plano e ficam salvos no SQLite)
+const rowToJob = (row) => ({
+  id: row.id,
+  tipo: row.tipo,
+  nome: row.nome,
+  status: row.status,
+  etapas: JSON.parse(row.etapas),
+  resultado: row.resultado ? JSON.parse(row.resultado) : null,
+  erro: row.erro ? JSON.parse(row.erro) : null,
+  criadoEm: row.criado_em,
+  atualizadoEm: row.atualizado_em
+});
+
+const saveJob = (job) => {
+  job.atualizadoEm = new Date().toISOString();
+  db.query(`
+    INSERT INTO jobs (id, tipo, nome, status, etapas, resultado, erro, criado_em, atualizado_em)
+    VALUES ($id, $tipo, $nome, $status, $etapas, $resultado, $erro, $criadoEm, $atualizadoEm)
+    ON CONFLICT(id) DO UPDATE SET
+      status = excluded.status,
+      etapas = excluded.etapas,
+      resultado = excluded.resultado,
+      erro = excluded.erro,
+      atualizado_em = excluded.atualizado_em
+  `).run({
+    $id: job.id,
+    $tipo: job.tipo,
+    $nome: job.nome,
+    $status: job.status,
+    $etapas: JSON.stringify(job.etapas),
+    $resultado: job.resultado ? JSON.stringify(job.resultado) : null,
+    $erro: job.erro ? JSON.stringify(job.erro) : null,
+    $criadoEm: job.criadoEm,
+    $atualizadoEm: job.atualizadoEm
+  });
+
+  auditJobCompletion(job);
+};
+
+const createJob = (tipo, nome) => {
+  const job = {
+    id: crypto.randomUUID(),
+    tipo,
+    nome,
+    status: 'pendente',
+    etapas: [],
+    resultado: null,
+    erro: null,
+    criadoEm: new Date().toISOString(),
+    atualizadoEm: null
+  };
+  saveJob(job);
+  return job;
+};
+
+const getJob = (id) => {
+  const row = db.query('SELECT * FROM jobs WHERE id = ?').get(id);
+  return row ? rowToJob(row) : null;
+};
+
+const listJobs = (filtros) => {
+  const { nome, nomes, tipo, status, limite = 50 } = filtros;
+  const filters = [];
+  const values = [];
+  if (nome) { filters.push('nome = ?'); values.push(nome); }
+  if (nomes) { filters.push(`nome IN (${nomes.map(() => '?').join(', ') || 'NULL'})`); values.push(...nomes); }
+  if (tipo) { filters.push('tipo = ?'); values.push(tipo); }
+  if (status) { filters.push('status = ?'); values.push(status); }
+
+  const where = filters.length > 0 ? `WHERE ${filters.join(' AND ')}` : '';
+  return db.query(`SELECT * FROM jobs ${where} ORDER BY criado_em DESC LIMIT ?`)
+    .all(...values, limite)
+    .map(rowToJob);
+};
+
+// Jobs que estavam rodando quando o processo parou não têm como continuar
+const markInterruptedJobs = () => {
+  const rows = db.query("SELECT * FROM jobs WHERE status IN ('pendente', 'executando')").all();
+  for (const row of rows) {
+    const job = rowToJob(row);
+    job.status = 'interrompido';
+    job.etapas = job.etapas.map(etapa => etapa.status === 'executando' ? { ...etapa, status: 'interrompido' } : etapa);
+    job.erro = { message: 'Job interrompido por reinício da API' };
+    saveJob(job);
+  }
+  return rows.length;
+};
+
+// 🔔 Webhooks de saída: eventos JSON assinados (HMAC-SHA256) para URLs cadastradas
+// Cada evento vira uma entrega por webhook no SQLite; falhas são reenviadas com backoff exponencial
+const WEBHOOK_EVENTS = [
+  'tenant.criado',
+  'tenant.falhou',
+  'tenant.removido',
+  'stack.confirmada',
+  'stack.nao_confirmada',
+  'stack.falhou',
+  'tunel.adicionado',
+  'dns.criado'
+];
+
+const rowToWebhook = (row) => ({
+  id: row.id,
+  url: row.url,
+  eventos: JSON.parse(row.eventos),
+  ativo: row.ativo === 1,
+  criadoEm: row.criado_em
+});
+
+const rowToWebhookDelivery = (row) => ({
+  id: row.id,
+  webhookId: row.webhook_id,
+  evento: row.evento,
+  status: row.status,
+  tentativas: row.tentativas,
+  proximaTentativa: row.proxima_tentativa,
+  ultimoStatus: row.ultimo_status,
+  ultimoErro: row.ultimo_erro,
+  payload: JSON.parse(row.payload),
+  criadoEm: row.criado_em,
+  atualizadoEm: row.atualizado_em
+});
+
+const listWebhooks = () => db.query('SELECT * FROM webhooks ORDER BY criado_em').all().map(rowToWebhook);
+
+const getWebhook = (id) => {
+  const row = db.query('SELECT * FROM webhooks WHERE id = ?').get(id);
+  return row ? rowToWebhook(row) : null;
+};
+
+// O segredo fica criptografado como os segredos dos tenants
+const createWebhook = ({ url, eventos, segredo }) => {
+  const webhook = { id: crypto.randomUUID(), url, eventos, ativo: true, criadoEm: new Date().toISOString() };
+  db.query(`
+    INSERT INTO webhooks (id, url, eventos, segredo, ativo, criado_em)
+    VALUES ($id, $url, $eventos, $segredo, 1, $criadoEm)
+  `).run({
+    $id: webhook.id,
+    $url: url,
+    $eventos: JSON.stringify(eventos),
+    $segredo: encryptSecret(segredo),
+    $criadoEm: webhook.criadoEm
+  });
+  return webhook;
+};
+
+const deleteWebhook = (id) => {
+  db.query('DELETE FROM webhook_entregas WHERE webhook_id = ?').run(id);
+  return db.query('DELETE FROM webhooks WHERE id = ?').run(id).changes > 0;
+};
+
+const listWebhookDeliveries = (webhookId, filtros) => {
+  const { status, limite = 50 } = filtros;
+  const filters = ['webhook_id = ?'];
+  const values = [webhookId];
+  if (status) { filters.push('status = ?'); values.push(status); }
+
+  return db.query(`SELECT * FROM webhook_entregas WHERE ${filters.join(' AND ')} ORDER BY criado_em DESC LIMIT ?`)
+    .all(...values, limite)
+    .map(rowToWebhookDelivery);
+};
+
+// Assinatura: HMAC-SHA256 de "<timestamp>.<corpo>" com o segredo do webhook
+const signWebhookPayload = (segredo, timestamp, body) =>
+  crypto.createHmac('sha256', segredo).update(`${timestamp}.${body}`).digest('hex');
+
+// Entregas em andamento neste processo (evita enviar a mesma entrega duas vezes)
+const webhooksInFlight = new Set();
+
+const deliverWebhook = async (row) => {
+  webhooksInFlight.add(row.id);
+  const now = new Date();
+  const tentativas = row.tentativas + 1;
+
+  try {
+    const webhook = db.query('SELECT * FROM webhooks WHERE id = ?').get(row.webhook_id);
+
+    // Webhook removido: a entrega não tem mais destino e sai da fila
+    if (!webhook) {
+      db.query(`
+        UPDATE webhook_entregas SET status = 'falhou', proxima_tentativa = NULL, ultimo_erro = $ultimoErro, atualizado_em = $now
+        WHERE id = $id
+      `).run({ $id: row.id, $ultimoErro: 'Webhook removido', $now: now.toISOString() });
+      return;
+    }
+
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const signature = signWebhookPayload(decryptSecret(webhook.segredo), timestamp, row.payload);
+
+    let status = 'entregue';
+    let ultimoStatus = null;
+    let ultimoErro = null;
+
+    try {
+      const response = await axios.post(webhook.url, row.payload, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-StackFlow-Event': row.evento,
+          'X-StackFlow-Delivery': row.id,
+          'X-StackFlow-Timestamp': String(timestamp),
+          'X-StackFlow-Signature': `sha256=${signature}`
+        },
+        timeout: WEBHOOK_TIMEOUT_MS,
+        // O corpo já vem serializado; é ele que foi assinado
+        transformRequest: [(data) => data]
+      });
+      ultimoStatus = response.status;
+    } catch (error) {
+      ultimoStatus = error.response?.status || null;
+      ultimoErro = error.response ? `HTTP ${error.response.status}` : error.message;
+      status = tentativas >= WEBHOOK_MAX_ATTEMPTS ? 'falhou' : 'pendente';
+    }
+
+    // Backoff: WEBHOOK_RETRY_BASE_MS, 2x, 4x... até 1 hora
+    const delay = Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** (tentativas - 1), 60 * 60 * 1000);
+
+    db.query(`
+      UPDATE webhook_entregas SET
+        status = $status,
+        tentativas = $tentativas,
+        proxima_tentativa = $proximaTentativa,
+        ultimo_status = $ultimoStatus,
+        ultimo_erro = $ultimoErro,
+        atualizado_em = $now
+      WHERE id = $id
+    `).run({
+      $id: row.id,
+      $status: status,
+      $tentativas: tentativas,
+      $proximaTentativa: status === 'pendente' ? new Date(now.getTime() + delay).toISOString() : null,
+      $ultimoStatus: ultimoStatus,
+      $ultimoErro: ultimoErro,
+      $now: new Date().toISOString()
+    });
+
+    if (status === 'entregue') {
+      console.log(`🔔 Evento ${row.evento} entregue em ${webhook.url}`);
+    } else {
+      console.error(`❌ Falha ao entregar ${row.evento} em ${webhook.url} (tentativa ${tentativas}):`, ultimoErro);
+    }
+  } finally {
+    webhooksInFlight.delete(row.id);
+  }
+};
+
+// Envia as entregas pendentes cuja próxima tentativa já venceu (chamado a cada emissão e periodicamente)
+const processWebhookQueue = async () => {
+  const rows = db.query(`
+    SELECT * FROM webhook_entregas
+    WHERE status = 'pendente' AND proxima_tentativa <= ?
+    ORDER BY criado_em
+    LIMIT 50
+  `).all(new Date().toISOString())
+    .filter(row => !webhooksInFlight.has(row.id));
+
+  await Promise.all(rows.map(row => deliverWebhook(row).catch(error =>
+    console.error(`❌ Erro inesperado na entrega ${row.id}:`, error.message)
+  )));
+};
+
+// Registra o evento para cada webhook ativo inscrito e dispara o envio sem bloquear quem emitiu
+const emitEvent = (evento, dados) => {
+  try {
+    const webhooks = listWebhooks()
+      .filter(webhook => webhook.ativo && (webhook.eventos.includes('*') || webhook.eventos.includes(evento)));
+    if (webhooks.length === 0) return;
+
+    const now = new Date().toISOString();
+    const payload = JSON.stringify({ id: crypto.randomUUID(), evento, criadoEm: now, dados });
+
+    for (const webhook of webhooks) {
+      db.query(`
+        INSERT INTO webhook_entregas (id, webhook_id, evento, payload, status, tentativas, proxima_tentativa, criado_em, atualizado_em)
+        VALUES ($id, $webhookId, $evento, $payload, 'pendente', 0, $now, $now, $now)
+      `).run({ $id: crypto.randomUUID(), $webhookId: webhook.id, $evento: evento, $payload: payload, $now: now });
+    }
+
+    processWebhookQueue().catch(error => console.error('❌ Erro ao processar webhooks:', error.message));
+  } catch (error) {
+    // Notificação nunca derruba o fluxo que a emitiu
+    console.error(`❌ Erro ao registrar evento ${evento}:`, error.message);
+  }
+};
+
+// Executa uma etapa registrando estado real, duração e erro
+// A função recebe a própria etapa e pode ajustar o status final (ex: 'nao_confirmado')
+const runJobStep = async (job, nome, fn) => {
+  const step = {
+    nome,
+    status: 'executando',
+    inicio: new Date().toISOString(),
+    fim: null,
+    duracaoMs: null,
+    erro: null
+  };
+  job.etapas.push(step);
+  saveJob(job);
+
+  const startedAt = Date.now();
+  try {
+    const result = await fn(step);
+    if (step.status === 'executando') step.status = 'sucesso';
+    return result;
+  } catch (error) {
+    step.status = 'erro';
+    step.erro = error.response?.data?.message || error.response?.data || error.message;
+    throw error;
+  } finally {
+    Object.assign(step, { fim: new Date().toISOString(), duracaoMs: Date.now() - startedAt });
+    saveJob(job);
+  }
+};
+
+// Etapa de convergência: não derruba o job, apenas registra o estado dos serviços
+const runConvergenceStep = async (job, stackNames, endpointId, headers, stepName = 'convergencia') => {
+  try {
+    return await runJobStep(job, stepName, async (step) => {
+      console.log(`🩺 Aguardando convergência: ${stackNames.join(', ')}`);
+      const convergence = await waitForConvergence(stackNames, endpointId, headers);
+
+      if (convergence.status === 'iniciando') {
+        step.status = 'nao_convergido';
+      } else if (convergence.status !== 'convergido') {
+        step.status = 'erro';
+        step.erro = `Serviços em ${convergence.status}`;
+      }
+
+      console.log(`🩺 Convergência: ${convergence.status}`);
+      return convergence;
+    });
+  } catch (error) {
+    return { status: 'desconhecido', error: error.message };
+  }
+};
+
+// ↩️ Item da pilha de rollback e o resultado de desfazê-lo
+type UndoAction = { recurso: string; nome: string; desfazer: () => Promise<unknown> };
+type UndoResult = { recurso: string; nome: string; status: 'desfeito' | 'erro'; erro?: string };
+
+// ↩️ Desfaz, em ordem reversa, tudo o que foi criado no provisionamento
+// Erros não interrompem os demais itens
+const rollbackProvisioning = async (job, undoStack: UndoAction[], stepName = 'rollback') => {
+  const etapas: UndoResult[] = [];
+
+  await runJobStep(job, stepName, async (step) => {
+    for (const action of [...undoStack].reverse()) {
+      try {
+        console.log(`↩️ Desfazendo ${action.recurso}: ${action.nome}`);
+        await action.desfazer();
+        etapas.push({ recurso: action.recurso, nome: action.nome, status: 'desfeito' });
+      } catch (error) {
+        console.error(`❌ Erro ao desfazer ${action.recurso} ${action.nome}:`, error.message);
+        etapas.push({
+          recurso: action.recurso,
+          nome: action.nome,
+          status: 'erro',
+          erro: error.response?.data?.message || error.message
+        });
+      }
+    }
+
+    if (etapas.some(etapa => etapa.status === 'erro')) {
+      step.status = 'erro';
+      step.erro = 'Rollback incompleto';
+    }
+  });
+
+  return {
+    completo: etapas.every(etapa => etapa.status === 'desfeito'),
+    desfeitos: etapas
+  };
+};
+
+// ↩️ Ação de rollback para uma stack criada no Portainer
+const undoStackCreation = (stackName, headers) => ({
+  recurso: 'stack',
+  nome: stackName,
+  desfazer: async () => {
+    const stack = (await listPortainerStacks(headers)).find(item => item.Name === stackName);
+    if (stack) await deletePortainerStack(stack, headers);
+  }
+});
+
+// 🚇 Hostname publicado por um job (vai para o resultado e para o registro do tenant)
+type PublishedHostname = {
+  hostname: string;
+  service: string;
+  stack: string;
+  tunel: 'criado' | 'atualizado';
+  dns: { registro: string; target: string; recordId: string } | null;
+};
+
+// 🚇 Publica os hostnames declarados pela stack: regra no túnel e, opcionalmente, CNAME para o túnel
+// Retorna false se algum hostname falhou (o erro vai para errors)
+const publishStackHostnames = async (job, stack, { dns, undoStack, publicados, errors }) => {
+  let ok = true;
+
+  for (const entry of stack.publicar) {
+    const fullHostname = getFullHostname(entry.hostname);
+    let tunel = null;
+    let dnsPublicado = null;
+
+    try {
+      const tunnelResult = await runJobStep(job, `tunel:${entry.hostname}`, () => addHostnameToTunnel(fullHostname, entry.servico));
+      // Regra que já existia antes do job volta no rollback; só hostname novo é removido
+      const { regraAnterior } = tunnelResult;
+      undoStack.push({
+        recurso: 'tunel',
+        nome: fullHostname,
+        desfazer: () => regraAnterior ? restoreTunnelRule(regraAnterior) : removeHostnameFromTunnel(fullHostname)
+      });
+      tunel = regraAnterior ? 'atualizado' : 'criado';
+      emitEvent('tunel.adicionado', { nome: job.nome, hostname: fullHostname, service: entry.servico, jobId: job.id });
+
+      if (dns) {
+        const target = getTunnelTarget();
+        // createCloudflareRecord sobrescreve o registro do nome: o plano guarda o que havia antes
+        const plan = await planCloudflareRecord(entry.hostname, 'CNAME', target, true);
+        const record = await runJobStep(job, `dns:${entry.hostname}`, () =>
+          createCloudflareRecord(entry.hostname, 'CNAME', target, true)
+        );
+        const anterior = plan.registroAtual;
+        undoStack.push({
+          recurso: 'dns',
+          nome: entry.hostname,
+          desfazer: () => anterior
+            ? createCloudflareRecord(entry.hostname, anterior.type, anterior.content, anterior.proxied, { ttl: anterior.ttl, prioridade: anterior.priority })
+            : deleteCloudflareRecord(entry.hostname, { tipo: 'CNAME', content: target })
+        });
+        dnsPublicado = { registro: entry.hostname, target, recordId: record.id };
+        emitEvent('dns.criado', { nome: job.nome, registro: record.name, tipo: 'CNAME', content: target, id: record.id, jobId: job.id });
+      }
+    } catch (error) {
+      ok = false;
+      errors.push({
+        hostname: fullHostname,
+        etapa: tunel ? 'dns' : 'tunel',
+        error: error.response?.data?.errors?.[0]?.message || error.response?.data?.message || error.message
+      });
+      console.error(`❌ Erro ao publicar ${fullHostname}:`, error.message);
+    }
+
+    if (tunel) {
+      publicados.push({ hostname: fullHostname, service: entry.servico, stack: stack.nome, tunel, dns: dnsPublicado });
+    }
+    if (!ok) break;
+  }
+
+  return ok;
+};
+
+// 🔐 Cria os secrets do Swarm usados pelas stacks; cada secret já entra no registro do tenant
+// para que o DELETE /api/stack/:nome o encontre mesmo se o deploy falhar depois
+const createTenantSwarmSecrets = async (nome, template, params, secretNames, endpointId, headers, undoStack) => {
+  const created = [];
+
+  for (const [param, secretName] of Object.entries(secretNames)) {
+    const id = await createDockerSecret(secretName, params[param], {
+      'stackflow.tenant': nome,
+      'stackflow.tipo': template.nome,
+      'stackflow.parametro': param
+    }, endpointId, headers);
+
+    recordTenantResource(nome, 'segredo', secretName, id, { tipo: template.nome, param, versao: getSecretVersion(secretName) });
+    undoStack.push({
+      recurso: 'segredo',
+      nome: secretName,
+      desfazer: async () => {
+        await removeDockerSecret(secretName, endpointId, headers);
+        removeTenantResource(nome, 'segredo', secretName);
+      }
+    });
+    created.push({ param, nome: secretName });
+  }
+
+  return created;
+};
+
+// 🚀 Provisionamento em segundo plano: cria as stacks declaradas no template, uma etapa por papel
+const runProvisioningJob = async (job, { nome, template, stacks, rede, endpointId, params, aguardarConvergencia = true, transacional = false, publicar = false, dns = true, criarRede = false, secretNames, plano = null }) => {
+  const startedAt = Date.now();
+  job.status = 'executando';
+  saveJob(job);
+
+  try {
+    const headers = await getPortainerHeaders();
+
+    // Pegar Swarm ID do endpoint
+    const swarmId = await runJobStep(job, 'swarm', () => getSwarmId(endpointId, headers));
+
+    const stacksCreated = [];
+    const errors = [];
+    const undoStack: UndoAction[] = [];
+    const publicados: PublishedHostname[] = [];
+
+    // Redes e volumes externos precisam existir antes do deploy
+    let preflight;
+    let segredos;
+    try {
+      preflight = await runJobStep(job, 'preflight', () => runPreflight(stacks, endpointId, headers, { criarRede, undoStack }));
+
+      if (secretNames) {
+        segredos = await runJobStep(job, 'segredos', () =>
+          createTenantSwarmSecrets(nome, template, params, secretNames, endpointId, headers, undoStack)
+        );
+      }
+    } catch (error) {
+      // No modo transacional, redes, volumes e secrets criados antes da falha são removidos
+      if (transacional && undoStack.length > 0) {
+        job.resultado = { rollback: await rollbackProvisioning(job, undoStack) };
+      }
+      throw error;
+    }
+
+    console.log(`🚀 Iniciando criação de ${stacks.length} stack(s) ${template.nome} para '${nome}'...`);
+
+    for (const stack of stacks) {
+      try {
+        console.log(`📝 Criando stack ${stack.nome} (${stack.papel})...`);
+
+        const created = await runJobStep(job, stack.papel, async (step) => {
+          const result = await createStackConfirmed(stack.nome, stack.content, swarmId, endpointId, headers);
+          if (result.status === 'criado') step.status = 'nao_confirmado';
+          return result;
+        });
+
+        stacksCreated.push({ name: stack.nome, id: created.id, tipo: stack.papel, ...stack.saida, status: created.status });
+        undoStack.push(undoStackCreation(stack.nome, headers));
+        emitEvent(created.status === 'confirmado' ? 'stack.confirmada' : 'stack.nao_confirmada', {
+          nome, tipo: template.nome, papel: stack.papel, stack: stack.nome, id: created.id, jobId: job.id
+        });
+      } catch (error) {
+        errors.push({ stack: stack.papel, error: error.response?.data?.message || error.message });
+        console.error(`❌ Erro ao criar stack ${stack.papel}:`, error.message);
+        emitEvent('stack.falhou', {
+          nome, tipo: template.nome, papel: stack.papel, stack: stack.nome, jobId: job.id,
+          erro: error.response?.data?.message || error.message
+        });
+
+        // No modo transacional a primeira falha interrompe o provisionamento
+        if (transacional) break;
+        continue;
+      }
+
+      if (publicar && stack.publicar.length > 0) {
+        const published = await publishStackHostnames(job, stack, { dns, undoStack, publicados, errors });
+        if (!published && transacional) break;
+      }
+    }
+
+    const urls = renderTemplateUrls(template, nome, params);
+
+    if (transacional && errors.length > 0) {
+      console.log(`↩️ Modo transacional: revertendo ${undoStack.length} recurso(s) de '${nome}'...`);
+      const rollback = await rollbackProvisioning(job, undoStack);
+
+      job.resultado = {
+        message: rollback.completo
+          ? `Falha ao criar ${template.nome} '${nome}'; ${undoStack.length} recurso(s) revertido(s)`
+          : `Falha ao criar ${template.nome} '${nome}'; rollback incompleto, verifique os recursos restantes`,
+        stacksCriadas: 0,
+        totalStacks: stacks.length,
+        stacks: [],
+        preflight,
+        segredos,
+        errors,
+        rollback
+      };
+
+      job.status = rollback.completo ? 'revertido' : 'falhou';
+      return;
+    }
+
+    if (stacksCreated.length > 0) {
+      saveTenantService(nome, template.nome, { rede, endpointId, config: params, urls, segredosSwarm: !!secretNames, plano });
+      for (const stack of stacksCreated) {
+        recordTenantResource(nome, 'stack', stack.name, stack.id, { papel: stack.tipo, status: stack.status });
+      }
+      for (const item of publicados) {
+        recordTenantResource(nome, 'tunel', item.hostname, null, { service: item.service });
+        if (item.dns) {
+          recordTenantResource(nome, 'dns', item.dns.registro, item.dns.recordId, { tipo: 'CNAME', content: item.dns.target, proxied: true });
+        }
+      }
+    }
+
+    job.resultado = {
+      message: stacksCreated.length > 0
+        ? `${template.nome} '${nome}' criado com ${stacksCreated.length} de ${stacks.length} stack(s)`
+        : `Falha ao criar todas as stacks de ${template.nome}`,
+      stacksCriadas: stacksCreated.length,
+      totalStacks: stacks.length,
+      plano: plano || undefined,
+      stacks: stacksCreated,
+      preflight,
+      segredos,
+      publicacao: publicar ? publicados : undefined,
+      errors: errors.length > 0 ? errors : undefined,
+      urls
+    };
+
+    if (aguardarConvergencia && stacksCreated.length > 0) {
+      job.resultado.convergencia = await runConvergenceStep(
+        job,
+        stacksCreated.map(stack => stack.name),
+        endpointId,
+        headers
+      );
+    }
+
+    if (stacksCreated.length === 0) job.status = 'falhou';
+    else if (errors.length > 0) job.status = 'parcial';
+    else job.status = 'concluido';
+
+  } catch (error) {
+    console.error(`❌ Erro no job ${job.id}:`, error.response?.data || error.message);
+
+    if (error.response?.status === 401) {
+      console.log('🔄 Token expirado, limpando cache...');
+      jwtCache = { token: null, expiresAt: null };
+    }
+
+    job.status = 'falhou';
+    job.erro = {
+      message: error.message,
+      status: error.response?.status,
+      details: error.response?.data
+    };
+  } finally {
+    observeHistogram('stackflow_provisioning_duration_seconds', { tipo: template.nome, status: job.status }, (Date.now() - startedAt) / 1000);
+    emitEvent(job.status === 'concluido' || job.status === 'parcial' ? 'tenant.criado' : 'tenant.falhou', {
+      nome,
+      tipo: template.nome,
+      jobId: job.id,
+      status: job.status,
+      stacks: job.resultado?.stacks?.map(stack => ({ nome: stack.name, papel: stack.tipo, status: stack.status })),
+      urls: job.resultado?.urls,
+      erro: job.erro?.message || job.resultado?.errors
+    });
+    saveJob(job);
+    console.log(`📋 Job ${job.id} finalizado: ${job.status}`);
+  }
+};
+
+// 🔐 Versão atual (maior) do secret de cada parâmetro registrada para o tenant
+const getCurrentSwarmSecrets = (nome, tipo) => {
+  const current = new Map();
+  for (const resource of listTenantResources(nome)) {
+    if (resource.tipo !== 'segredo' || resource.dados?.tipo !== tipo) continue;
+    const previous = current.get(resource.dados.param);
+    if (!previous || getSecretVersion(resource.nome) > getSecretVersion(previous)) {
+      current.set(resource.dados.param, resource.nome);
+    }
+  }
+  return Object.fromEntries(current);
+};
+
+// 🔐 Rotação de secrets do Swarm: cria as versões novas, reimplanta as stacks que as usam e remove as antigas
+// Qualquer falha antes da limpeza desfaz as stacks atualizadas e os secrets novos
+const runSecretRotationJob = async (job, { nome, template, servico, novosValores }) => {
+  job.status = 'executando';
+  saveJob(job);
+
+  const undoStack: UndoAction[] = [];
+
+  try {
+    const headers = await getPortainerHeaders();
+    const endpointId = servico.endpointId || PORTAINER_ENDPOINT_ID;
+    const params = { ...servico.config, ...(getTenantSecrets(nome)[template.nome] || {}) };
+    const newParams = { ...params, ...novosValores };
+
+    const currentNames = getCurrentSwarmSecrets(nome, template.nome);
+    const rotated = Object.fromEntries(Object.keys(novosValores).map(param => [
+      param,
+      getSwarmSecretName(nome, template.nome, param, currentNames[param] ? getSecretVersion(currentNames[param]) + 1 : 1)
+    ]));
+    const newNames = { ...currentNames, ...rotated };
+
+    const updated = [];
+
+    try {
+      await runJobStep(job, 'segredos', () =>
+        createTenantSwarmSecrets(nome, template, newParams, rotated, endpointId, headers, undoStack)
+      );
+
+      const stacks = renderTemplateStacks(template, { nome, rede: servico.rede, params: newParams, secretNames: newNames })
+        .filter(stack => Object.values(rotated).some(secretName => stack.content.includes(secretName)));
+      const portainerStacks = await listPortainerStacks(headers);
+
+      for (const stack of stacks) {
+        const existing = portainerStacks.find(item => item.Name === stack.nome);
+        if (!existing) throw new Error(`Stack ${stack.nome} não encontrada no Portainer`);
+
+        const previousContent = await getPortainerStackFile(existing, headers);
+        await runJobStep(job, `stack:${stack.papel}`, () => updatePortainerStack(existing, stack.content, headers));
+        undoStack.push({
+          recurso: 'stack',
+          nome: stack.nome,
+          desfazer: () => updatePortainerStack(existing, previousContent, headers)
+        });
+        updated.push(stack.nome);
+      }
+    } catch (error) {
+      console.error(`❌ Erro na rotação de secrets de '${nome}':`, error.response?.data?.message || error.message);
+      const rollback = await rollbackProvisioning(job, undoStack);
+
+      job.resultado = {
+        message: rollback.completo
+          ? `Rotação de secrets de '${nome}' falhou e foi revertida`
+          : `Rotação de secrets de '${nome}' falhou; rollback incompleto, verifique os recursos restantes`,
+        rollback
+      };
+      job.status = rollback.completo ? 'revertido' : 'falhou';
+      job.erro = { message: error.response?.data?.message || error.message };
+      return;
+    }
+
+    // Os valores novos só passam a valer no registro depois que as stacks foram atualizadas
+    saveTenantService(nome, template.nome, {
+      rede: servico.rede,
+      endpointId: servico.endpointId,
+      config: newParams,
+      urls: servico.urls,
+      segredosSwarm: true,
+      plano: servico.plano
+    });
+
+    const convergencia = updated.length > 0
+      ? await runConvergenceStep(job, updated, endpointId, headers)
+      : undefined;
+
+    // Secrets antigos só podem ser removidos quando nenhuma task os usa mais
+    const limpeza: { nome: string; status: 'removido' | 'erro'; erro?: string }[] = [];
+    await runJobStep(job, 'limpeza', async (step) => {
+      for (const param of Object.keys(rotated)) {
+        const oldName = currentNames[param];
+        if (!oldName) continue;
+        try {
+          await removeDockerSecret(oldName, endpointId, headers);
+          removeTenantResource(nome, 'segredo', oldName);
+          limpeza.push({ nome: oldName, status: 'removido' });
+        } catch (error) {
+          limpeza.push({ nome: oldName, status: 'erro', erro: error.response?.data?.message || error.message });
+        }
+      }
+
+      if (limpeza.some(item => item.status === 'erro')) {
+        step.status = 'erro';
+        step.erro = 'Secrets antigos não removidos';
+      }
+    });
+
+    job.resultado = {
+      message: `Secrets de '${nome}' rotacionados; ${updated.length} stack(s) reimplantada(s)`,
+      segredos: Object.entries(rotated).map(([param, secretName]) => ({ param, anterior: currentNames[param] || null, novo: secretName })),
+      stacks: updated,
+      convergencia,
+      limpeza
+    };
+    job.status = limpeza.some(item => item.status === 'erro') ? 'parcial' : 'concluido';
+
+  } catch (error) {
+    console.error(`❌ Erro no job ${job.id}:`, error.response?.data || error.message);
+
+    job.status = 'falhou';
+    job.erro = {
+      message: error.message,
+      status: error.response?.status,
+      details: error.response?.data
+    };
+  } finally {
+    saveJob(job);
+    console.log(`📋 Job ${job.id} finalizado: ${job.status}`);
+  }
+};
+
+// Stacks de todos os serviços do tenant, com o papel de cada uma no template
+const getTenantStacks = (tenant) => Object.entries(tenant.servicos).flatMap(([tipo, servico]) =>
+  (getTemplate(tipo)?.stacks || []).map(stack => ({
+    papel: stack.papel,
+    nome: renderTemplateValue(stack.nome, { nome: tenant.nome }),
+    endpointId: servico.endpointId || PORTAINER_ENDPOINT_ID
+  }))
+);
+
+// ⏸️ Serviços Swarm (modo replicated) de todas as stacks do tenant, com as réplicas atuais
+const listTenantSwarmServices = async (tenant, headers) => {
+  const services = [];
+
+  for (const [tipo, servico] of Object.entries(tenant.servicos)) {
+    const template = getTemplate(tipo);
+    if (!template) throw new Error(`Template ${tipo} não está carregado`);
+
+    const endpointId = servico.endpointId || PORTAINER_ENDPOINT_ID;
+    for (const stack of template.stacks) {
+      const stackName = renderTemplateValue(stack.nome, { nome: tenant.nome });
+      const stackServices = await getStackServices(stackName, endpointId, headers);
+
+      services.push(...stackServices
+        .filter(service => service.Spec?.Mode?.Replicated)
+        .map(service => ({
+          nome: service.Spec.Name,
+          stack: stackName,
+          endpointId,
+          replicas: service.Spec.Mode.Replicated.Replicas
+        })));
+    }
+  }
+
+  return services;
+};
+
+// ⏸️ Suspensão (inadimplência): todos os serviços vão a 0 réplicas; volumes, secrets e registro ficam.
+// As réplicas anteriores (e o destino original dos hostnames do túnel) são guardadas para o resume
+const runSuspendJob = async (job, { nome, tenant, paginaSuspensa = false }) => {
+  job.status = 'executando';
+  saveJob(job);
+
+  const undoStack: UndoAction[] = [];
+
+  try {
+    const headers = await getPortainerHeaders();
+    const services = await runJobStep(job, 'servicos', () => listTenantSwarmServices(tenant, headers));
+    const tunnelRules = paginaSuspensa
+      ? tenant.recursos.filter(recurso => recurso.tipo === 'tunel')
+      : [];
+
+    try {
+      for (const service of services) {
+        await runJobStep(job, `servico:${service.nome}`, async (step) => {
+          if (service.replicas === 0) {
+            step.status = 'ignorado';
+            return;
+          }
+          await scaleDockerService(service.nome, 0, service.endpointId, headers);
+          undoStack.push({
+            recurso: 'servico',
+            nome: service.nome,
+            desfazer: () => scaleDockerService(service.nome, service.replicas, service.endpointId, headers)
+          });
+        });
+      }
+
+      for (const rule of tunnelRules) {
+        await runJobStep(job, `tunel:${rule.nome}`, async () => {
+          await addHostnameToTunnel(rule.nome, SUSPENDED_SERVICE_URL);
+          undoStack.push({
+            recurso: 'tunel',
+            nome: rule.nome,
+            desfazer: () => addHostnameToTunnel(rule.nome, rule.dados?.service)
+          });
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Erro ao suspender '${nome}':`, error.response?.data?.message || error.message);
+      const rollback = await rollbackProvisioning(job, undoStack);
+
+      job.resultado = {
+        message: rollback.completo
+          ? `Suspensão de '${nome}' falhou e foi revertida`
+          : `Suspensão de '${nome}' falhou; rollback incompleto, verifique os serviços`,
+        rollback
+      };
+      job.status = rollback.completo ? 'revertido' : 'falhou';
+      job.erro = { message: error.response?.data?.message || error.message };
+      return;
+    }
+
+    const suspensao = {
+      suspensoEm: new Date().toISOString(),
+      jobId: job.id,
+      servicos: services,
+      tunel: tunnelRules.map(rule => ({ hostname: rule.nome, service: rule.dados?.service }))
+    };
+    setTenantSuspension(nome, suspensao);
+
+    job.resultado = {
+      message: `Tenant '${nome}' suspenso; ${services.length} serviço(s) com 0 réplicas`,
+      servicos: services.map(service => ({ nome: service.nome, de: service.replicas, para: 0 })),
+      tunel: suspensao.tunel.length > 0 ? suspensao.tunel.map(item => item.hostname) : undefined
+    };
+    job.status = 'concluido';
+
+  } catch (error) {
+    console.error(`❌ Erro no job ${job.id}:`, error.response?.data || error.message);
+
+    job.status = 'falhou';
+    job.erro = {
+      message: error.message,
+      status: error.response?.status,
+      details: error.response?.data
+    };
+  } finally {
+    saveJob(job);
+    console.log(`📋 Job ${job.id} finalizado: ${job.status}`);
+  }
+};
+
+// ▶️ Reativação: volta as réplicas e os hostnames do túnel guardados na suspensão
+const runResumeJob = async (job, { nome, suspensao }) => {
+  job.status = 'executando';
+  saveJob(job);
+
+  const undoStack: UndoAction[] = [];
+
+  try {
+    const headers = await getPortainerHeaders();
+
+    try {
+      for (const service of suspensao.servicos) {
+        await runJobStep(job, `servico:${service.nome}`, async (step) => {
+          if (service.replicas === 0) {
+            step.status = 'ignorado';
+            return;
+          }
+          await scaleDockerService(service.nome, service.replicas, service.endpointId, headers);
+          undoStack.push({
+            recurso: 'servico',
+            nome: service.nome,
+            desfazer: () => scaleDockerService(service.nome, 0, service.endpointId, headers)
+          });
+        });
+      }
+
+      for (const rule of suspensao.tunel) {
+        await runJobStep(job, `tunel:${rule.hostname}`, async () => {
+          await addHostnameToTunnel(rule.hostname, rule.service);
+          undoStack.push({
+            recurso: 'tunel',
+            nome: rule.hostname,
+            desfazer: () => addHostnameToTunnel(rule.hostname, SUSPENDED_SERVICE_URL)
+          });
+        });
+      }
+    } catch (error) {
+      console.error(`❌ Erro ao reativar '${nome}':`, error.response?.data?.message || error.message);
+      const rollback = await rollbackProvisioning(job, undoStack);
+
+      job.resultado = {
+        message: rollback.completo
+          ? `Reativação de '${nome}' falhou; o tenant continua suspenso`
+          : `Reativação de '${nome}' falhou; rollback incompleto, verifique os serviços`,
+        rollback
+      };
+      job.status = rollback.completo ? 'revertido' : 'falhou';
+      job.erro = { message: error.response?.data?.message || error.message };
+      return;
+    }
+
+    setTenantSuspension(nome, null);
+
+    job.resultado = {
+      message: `Tenant '${nome}' reativado; ${suspensao.servicos.length} serviço(s) com as réplicas anteriores`,
+      servicos: suspensao.servicos.map(service => ({ nome: service.nome, de: 0, para: service.replicas })),
+      tunel: suspensao.tunel.length > 0 ? suspensao.tunel.map(item => item.hostname) : undefined
+    };
+    job.status = 'concluido';
+
+  } catch (error) {
+    console.error(`❌ Erro no job ${job.id}:`, error.response?.data || error.message);
+
+    job.status = 'falhou';
+    job.erro = {
+      message: error.message,
+      status: error.response?.status,
+      details: error.response?.data
+    };
+  } finally {
+    saveJob(job);
+    console.log(`📋 Job ${job.id} finalizado: ${job.status}`);
+  }
+};
+
+// 🧾 Diff de linhas entre dois arquivos de stack (formato unificado, só os trechos alterados)
+const diffLines = (before, after, context = 3) => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Tabela LCS linearizada: lcs[i * width + j] = maior subsequência comum entre a[i..] e b[j..]
+  const width = b.length + 1;
+  const lcs = new Array((a.length + 1) * width).fill(0);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push({ tipo: ' ', linha: a[i], antes: i++, depois: j++ });
+    } else if (i < a.length && (j >= b.length || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])) {
+      ops.push({ tipo: '-', linha: a[i], antes: i++, depois: j });
+    } else {
+      ops.push({ tipo: '+', linha: b[j], antes: i, depois: j++ });
+    }
+  }
+
+  const changed = ops.map((op, index) => op.tipo !== ' ' ? index : -1).filter(index => index >= 0);
+  if (changed.length === 0) return '';
+
+  // Alterações a até 2 * context linhas uma da outra ficam no mesmo trecho
+  const ranges = [];
+  for (const position of changed) {
+    const last = ranges[ranges.length - 1];
+    if (last && position - last.fim <= context * 2) last.fim = position;
+    else ranges.push({ inicio: position, fim: position });
+  }
+
+  const output = [];
+  for (const { inicio, fim } of ranges) {
+    const hunk = ops.slice(Math.max(0, inicio - context), Math.min(ops.length, fim + context + 1));
+    const [first] = hunk;
+    if (!first) continue;
+    const oldCount = hunk.filter(op => op.tipo !== '+').length;
+    const newCount = hunk.filter(op => op.tipo !== '-').length;
+    output.push(`@@ -${first.antes + 1},${oldCount} +${first.depois + 1},${newCount} @@`);
+    hunk.forEach(op => output.push(`${op.tipo}${op.linha}`));
+  }
+
+  return output.join('\n');
+};
+
+// 🗂️ Escolhe o serviço do tenant: o informado em tipo ou o único disponível
+const selectTenantService = (servicos, tipo) => {
+  const entries = Object.keys(servicos || {}).map(nomeServico => [nomeServico, servicos[nomeServico]]);
+  if (tipo) return entries.find(([nomeServico]) => nomeServico === tipo);
+  return entries.length === 1 ? entries[0] : undefined;
+};
+
+// ✏️ Compara o compose atual de cada stack do tenant com o re-renderizado (somente leituras no Portainer)
+const planStackUpdate = async ({ nome, template, servico, params, headers }) => {
+  const secretNames = servico.segredosSwarm ? getCurrentSwarmSecrets(nome, template.nome) : null;
+  const stacks = renderTemplateStacks(template, { nome, rede: servico.rede, params, secretNames });
+  const portainerStacks = await listPortainerStacks(headers);
+  const changes = [];
+
+  for (const stack of stacks) {
+    const existing = portainerStacks.find(item => item.Name === stack.nome);
+    if (!existing) {
+      throw new Error(`Stack ${stack.nome} não encontrada no Portainer; recrie o tenant com POST /api/stack`);
+    }
+
+    const previousContent = await getPortainerStackFile(existing, headers);
+    const diff = diffLines(previousContent, stack.content);
+
+    changes.push({
+      papel: stack.papel,
+      nome: stack.nome,
+      alterada: diff !== '',
+      diff,
+      stack: existing,
+      previousContent,
+      content: stack.content
+    });
+  }
+
+  return changes;
+};
+
+// ✏️ Reimplanta as stacks alteradas de um tenant e salva a nova config no registro
+// Uma falha na atualização (ou, com exigirConvergencia, serviços que não convergem) devolve as stacks ao compose anterior
+const applyTenantUpdate = async (job, { nome, template, servico, params, changes, headers, aguardarConvergencia = true, exigirConvergencia = false, prefixo = '' }) => {
+  const endpointId = servico.endpointId || PORTAINER_ENDPOINT_ID;
+  const undoStack = [];
+  const updated = [];
+
+  try {
+    for (const change of changes.filter(item => item.alterada)) {
+      await runJobStep(job, `${prefixo}stack:${change.papel}`, () => updatePortainerStack(change.stack, change.content, headers));
+      undoStack.push({
+        recurso: 'stack',
+        nome: change.nome,
+        desfazer: () => updatePortainerStack(change.stack, change.previousContent, headers)
+      });
+      updated.push(change.nome);
+    }
+  } catch (error) {
+    console.error(`❌ Erro ao atualizar '${nome}':`, error.response?.data?.message || error.message);
+    const rollback = await rollbackProvisioning(job, undoStack, `${prefixo}rollback`);
+    return {
+      status: rollback.completo ? 'revertido' : 'falhou',
+      erro: error.response?.data?.message || error.message,
+      stacks: updated,
+      rollback
+    };
+  }
+
+  const convergencia = aguardarConvergencia && updated.length > 0
+    ? await runConvergenceStep(job, updated, endpointId, headers, `${prefixo}convergencia`)
+    : undefined;
+
+  if (exigirConvergencia && convergencia && convergencia.status !== 'convergido') {
+    console.log(`↩️ '${nome}' não convergiu (${convergencia.status}), revertendo stacks...`);
+    const rollback = await rollbackProvisioning(job, undoStack, `${prefixo}rollback`);
+    return {
+      status: rollback.completo ? 'revertido' : 'falhou',
+      erro: `Serviços em ${convergencia.status}`,
+      stacks: updated,
+      convergencia,
+      rollback
+    };
+  }
+
+  saveTenantService(nome, template.nome, {
+    rede: servico.rede,
+    endpointId: servico.endpointId,
+    config: params,
+    urls: servico.urls,
+    segredosSwarm: servico.segredosSwarm,
+    plano: servico.plano
+  });
+
+  return { status: 'atualizado', stacks: updated, convergencia };
+};
+
+const runStackUpdateJob = async (job, { nome, template, servico, params, changes, aguardarConvergencia = true }) => {
+  job.status = 'executando';
+  saveJob(job);
+
+  try {
+    const headers = await getPortainerHeaders();
+    const result = await applyTenantUpdate(job, { nome, template, servico, params, changes, headers, aguardarConvergencia });
+
+    if (result.status === 'atualizado') {
+      job.resultado = {
+        message: `${template.nome} '${nome}' atualizado; ${result.stacks.length} stack(s) reimplantada(s)`,
+        stacks: result.stacks,
+        convergencia: result.convergencia
+      };
+      job.status = 'concluido';
+    } else {
+      job.resultado = {
+        message: result.status === 'revertido'
+          ? `Atualização de '${nome}' falhou e foi revertida`
+          : `Atualização de '${nome}' falhou; rollback incompleto, verifique as stacks`,
+        rollback: result.rollback
+      };
+      job.status = result.status;
+      job.erro = { message: result.erro };
+    }
+
+  } catch (error) {
+    console.error(`❌ Erro no job ${job.id}:`, error.response?.data || error.message);
+
+    job.status = 'falhou';
+    job.erro = {
+      message: error.message,
+      status: error.response?.status,
+      details: error.response?.data
+    };
+  } finally {
+    saveJob(job);
+    console.log(`📋 Job ${job.id} finalizado: ${job.status}`);
+  }
+};
+
+// 🚀 Campanhas de atualização de versão do n8n em toda a frota
+const CAMPAIGN_TEMPLATE = 'n8n';
+const CAMPAIGN_VERSION_PARAM = 'versaoN8n';
+
+// 🚀 Tenants elegíveis: os selecionados que têm o serviço e ainda não estão na versão alvo
+const selectCampaignTenants = (template, versao, { tenants, todos, excluir }) => {
+  const withService = listTenants().filter(tenant => tenant.servicos?.[template.nome]);
+  const selected = todos
+    ? withService
+    : withService.filter(tenant => tenants.includes(tenant.nome));
+
+  return {
+    elegiveis: selected
+      .filter(tenant => !excluir.includes(tenant.nome))
+      .filter(tenant => tenant.status !== 'suspenso')
+      .filter(tenant => tenant.servicos[template.nome].config?.[CAMPAIGN_VERSION_PARAM] !== versao)
+      .map(tenant => tenant.nome),
+    jaNaVersao: selected
+      .filter(tenant => tenant.servicos[template.nome].config?.[CAMPAIGN_VERSION_PARAM] === versao)
+      .map(tenant => tenant.nome),
+    // Redeploy de um tenant suspenso voltaria as réplicas do compose
+    suspensos: selected
+      .filter(tenant => tenant.status === 'suspenso' && !excluir.includes(tenant.nome))
+      .map(tenant => tenant.nome),
+    naoEncontrados: todos ? [] : tenants.filter(nome => !withService.some(tenant => tenant.nome === nome))
+  };
+};
+
+// 🚀 Lote 1 é o canário; os demais têm até `lote` tenants
+const buildCampaignBatches = (tenants, canario, lote) => {
+  const batches = [tenants.slice(0, canario)];
+  for (let index = canario; index < tenants.length; index += lote) {
+    batches.push(tenants.slice(index, index + lote));
+  }
+  return batches.filter(batch => batch.length > 0);
+};
+
+// 🚀 Atualiza a versão de um tenant e exige convergência dos serviços (editor, webhook e worker)
+const upgradeCampaignTenant = async (job, item, { template, versao, headers }) => {
+  item.status = 'executando';
+  item.inicio = new Date().toISOString();
+  saveJob(job);
+
+  try {
+    const servico = getTenant(item.nome)?.servicos?.[template.nome];
+    if (!servico) throw new Error(`Tenant sem ${template.nome} registrado`);
+
+    item.versaoAnterior = servico.config?.[CAMPAIGN_VERSION_PARAM];
+    const params = {
+      ...servico.config,
+      ...(getTenantSecrets(item.nome)[template.nome] || {}),
+      [CAMPAIGN_VERSION_PARAM]: versao
+    };
+
+    const changes = await planStackUpdate({ nome: item.nome, template, servico, params, headers });
+
+    if (!changes.some(change => change.alterada)) {
+      item.status = 'sem_alteracao';
+    } else {
+      const result = await applyTenantUpdate(job, {
+        nome: item.nome,
+        template,
+        servico,
+        params,
+        changes,
+        headers,
+        exigirConvergencia: true,
+        prefixo: `${item.nome}:`
+      });
+
+      item.status = result.status;
+      item.convergencia = result.convergencia?.status;
+      item.erro = result.erro;
+      if (result.rollback) item.rollbackCompleto = result.rollback.completo;
+    }
+  } catch (error) {
+    item.status = 'falhou';
+    item.erro = error.response?.data?.message || error.message;
+  } finally {
+    item.fim = new Date().toISOString();
+    saveJob(job);
+    console.log(`🚀 Campanha ${job.id}: '${item.nome}' ${item.status}`);
+  }
+};
+
+const runUpgradeCampaign = async (job, { template, versao, batches }) => {
+  job.status = 'executando';
+  saveJob(job);
+
+  try {
+    const headers = await getPortainerHeaders();
+
+    for (let index = 0; index < batches.length; index++) {
+      const label = index === 0 ? 'canário' : `lote ${index + 1}`;
+      const items = job.resultado.tenants.filter(item => item.lote === index + 1);
+
+      job.resultado.loteAtual = index + 1;
+      saveJob(job);
+      console.log(`🚀 Campanha ${job.id}: ${label} (${items.map(item => item.nome).join(', ')})`);
+
+      await Promise.all(items.map(item => upgradeCampaignTenant(job, item, { template, versao, headers })));
+
+      const failed = items.filter(item => !['atualizado', 'sem_alteracao'].includes(item.status));
+      if (failed.length > 0) {
+        job.resultado.tenants
+          .filter(item => item.status === 'pendente')
+          .forEach(item => { item.status = 'nao_executado'; });
+
+        job.resultado.message = `Campanha interrompida no ${label}: falha em ${failed.map(item => item.nome).join(', ')}`;
+        job.status = 'falhou';
+        return;
+      }
+    }
+
+    job.resultado.message = `${job.resultado.tenants.length} tenant(s) atualizados para ${template.nome} ${versao}`;
+    job.status = 'concluido';
+
+  } catch (error) {
+    console.error(`❌ Erro na campanha ${job.id}:`, error.response?.data || error.message);
+
+    job.status = 'falhou';
+    job.erro = {
+      message: error.message,
+      status: error.response?.status,
+      details: error.response?.data
+    };
+  } finally {
+    saveJob(job);
+    console.log(`📋 Campanha ${job.id} finalizada: ${job.status}`);
+  }
+};
+
+// 🔍 Lê a opção dryRun do body ou da query string
+const isDryRun = (req) => {
+  const value = req.body?.dryRun ?? req.query.dryRun;
+  return value === true || value === 'true' || value === '1';
+};
+
+// 🔍 Monta o plano de provisionamento sem aplicar nada (somente leituras no Portainer)
+const planStackProvisioning = async ({ nome, template, stacks, endpointId, publicar = false, dns = true, criarRede = false, secretNames }) => {
+  const headers = await getPortainerHeaders();
+  const swarmId = await getSwarmId(endpointId, headers);
+  const existingStacks = await listPortainerStacks(headers);
+  const conflitos = [];
+
+  const tenant = getTenant(nome);
+  if (tenant?.servicos?.[template.nome]) {
+    conflitos.push({
+      tipo: 'tenant',
+      nome,
+      message: `Tenant '${nome}' já possui ${template.nome} registrado`
+    });
+  }
+
+  const planStacks = stacks.map(stack => {
+    const existing = existingStacks.find(item => item.Name === stack.nome);
+
+    if (existing) {
+      conflitos.push({
+        tipo: 'stack',
+        nome: stack.nome,
+        message: `Stack '${stack.nome}' já existe no Portainer (ID ${existing.Id})`
+      });
+    }
+
+    return {
+      papel: stack.papel,
+      nome: stack.nome,
+      acao: existing ? 'conflito' : 'criar',
+      compose: stack.content,
+      requisicao: buildStackCreateRequest(stack.nome, stack.content, swarmId, endpointId)
+    };
+  });
+
+  const externalResources = await inspectExternalResources(stacks, endpointId, headers);
+  const preflight = {
+    redes: externalResources.redes.map(network => {
+      const message = network.erro || (!network.existente && !criarRede
+        ? `Rede '${network.nome}' não existe; envie criarRede: true para criá-la`
+        : null);
+
+      if (message) {
+        conflitos.push({ tipo: 'rede', nome: network.nome, message });
+        return { nome: network.nome, acao: 'conflito' };
+      }
+      return { nome: network.nome, acao: network.existente ? 'reutilizar' : 'criar' };
+    }),
+    volumes: externalResources.volumes.map(volume => ({ nome: volume.nome, acao: volume.existente ? 'reutilizar' : 'criar' }))
+  };
+
+  const planSecrets = [];
+  if (secretNames) {
+    const existingSecrets = await listDockerSecrets(endpointId, headers);
+    for (const [param, secretName] of Object.entries(secretNames)) {
+      const exists = existingSecrets.some(secret => secret.Spec?.Name === secretName);
+      if (exists) {
+        conflitos.push({ tipo: 'segredo', nome: secretName, message: `Secret '${secretName}' já existe no Swarm` });
+      }
+      planSecrets.push({ param, nome: secretName, acao: exists ? 'conflito' : 'criar' });
+    }
+  }
+
+  const planTunnel = [];
+  const planDns = [];
+
+  if (publicar) {
+    for (const entry of stacks.flatMap(stack => stack.publicar)) {
+      const tunnelPlan = await planTunnelHostname(getFullHostname(entry.hostname), entry.servico);
+      planTunnel.push(tunnelPlan);
+      if (tunnelPlan.conflito) {
+        conflitos.push({ tipo: 'tunel', nome: tunnelPlan.hostname, message: tunnelPlan.conflito });
+      }
+
+      if (dns) {
+        const dnsPlan = await planCloudflareRecord(entry.hostname, 'CNAME', getTunnelTarget(), true);
+        planDns.push(dnsPlan);
+        if (dnsPlan.conflito) {
+          conflitos.push({ tipo: 'dns', nome: dnsPlan.subdomain, message: dnsPlan.conflito });
+        }
+      }
+    }
+  }
+
+  return {
+    swarmId,
+    preflight,
+    segredos: planSecrets,
+    stacks: planStacks,
+    dns: planDns,
+    tunel: planTunnel,
+    conflitos
+  };
+};
+
+// 📦 Endpoint para criar stack (Redis ou N8N completo com 3 stacks separadas)
+app.post('/api/stack', authenticateToken, requireScope('stacks:write'), denyTenantBoundKeys, async (req, res) => {
+  try {
+    const {
+      nome,
+      tipo,
+      rede,
+      endpointId = PORTAINER_ENDPOINT_ID,
+      aguardarConvergencia = true,
+      transacional = false,
+      publicar = false,
+      dns = true,
+      criarRede = false,
+      segredosSwarm = false,
+      plano: nomePlano
+    } = req.body;
+
+    if (!nome || !tipo || !rede) {
+      return res.status(400).json({ error: 'Campos obrigatórios: nome, tipo, rede' });
+    }
+
+    const nameError = validateNome(nome) || validateRede(rede);
+    if (nameError) {
+      return res.status(400).json({ error: 'Nome inválido', message: nameError });
+    }
+
+    const template = getTemplate(tipo);
+
+    if (!template) {
+      return res.status(400).json({
+        error: 'Tipo não suportado',
+        message: `Os tipos suportados são: ${listTemplates().map(item => item.nome).join(', ')}`
+      });
+    }
+
+    const planParams = nomePlano ? getPlanParams(nomePlano, template.nome) : {};
+
+    if (!planParams) {
+      return res.status(400).json({
+        error: 'Plano inválido',
+        message: `Planos disponíveis para ${template.nome}: ${listPlansForTemplate(template.nome).join(', ') || 'nenhum'}`
+      });
+    }
+
+    const { params, missing, invalid, generated } = resolveTemplateParams(template, req.body, planParams);
+
+    if (missing.length > 0) {
+      return res.status(400).json({
+        error: `Configurações obrigatórias para ${template.nome}`,
+        message: `É necessário fornecer: ${missing.join(', ')}`,
+        exemplo: template.exemplo
+      });
+    }
+
+    if (invalid.length > 0) {
+      return res.status(400).json({
+        error: 'Parâmetros inválidos',
+        message: invalid.join('; ')
+      });
+    }
+
+    const options = {
+      publicar: publicar === true,
+      dns: publicar === true && dns !== false,
+      criarRede: criarRede === true
+    };
+
+    if (options.publicar && !(CLOUDFLARE_API_TOKEN && CLOUDFLARE_ACCOUNT_ID && CLOUDFLARE_TUNNEL_ID)) {
+      return res.status(400).json({
+        error: 'Túnel Cloudflare não configurado',
+        message: 'Defina CLOUDFLARE_API_TOKEN, CLOUDFLARE_ACCOUNT_ID e CLOUDFLARE_TUNNEL_ID para usar publicar: true'
+      });
+    }
+
+    if (options.dns && !(CLOUDFLARE_ZONE_ID && CLOUDFLARE_DOMAIN)) {
+      return res.status(400).json({
+        error: 'Cloudflare DNS não configurado',
+        message: 'Defina CLOUDFLARE_ZONE_ID e CLOUDFLARE_DOMAIN ou envie dns: false'
+      });
+    }
+
+    if (segredosSwarm === true && !template.segredosSwarm) {
+      return res.status(400).json({
+        error: 'segredosSwarm não suportado',
+        message: `O template ${template.nome} não declara parâmetros em segredosSwarm`
+      });
+    }
+
+    const secretNames = segredosSwarm === true ? getInitialSwarmSecrets(nome, template, params) : null;
+    const stacks = renderTemplateStacks(template, { nome, rede, params, secretNames });
+
+    if (isDryRun(req)) {
+      const planoCompleto = await planStackProvisioning({ nome, template, stacks, endpointId, secretNames, ...options });
+      const { conflitos } = planoCompleto;
+      const plano = maskSecretValues(planoCompleto, getSecretValues(template, params));
+
+      return res.json({
+        success: true,
+        dryRun: true,
+        message: conflitos.length > 0
+          ? `Plano gerado com ${conflitos.length} conflito(s); nada foi aplicado`
+          : 'Plano gerado; nada foi aplicado',
+        nome,
+        tipo: template.nome,
+        planoServico: nomePlano,
+        segredosGerados: generated,
+        plano
+      });
+    }
+
+    const job = createJob(template.nome, nome);
+    auditJob(req, res, job);
+
+    // O job continua rodando depois da resposta HTTP
+    runProvisioningJob(job, {
+      nome,
+      template,
+      stacks,
+      rede,
+      endpointId,
+      params,
+      aguardarConvergencia: aguardarConvergencia !== false,
+      transacional: transacional === true,
+      secretNames,
+      plano: nomePlano,
+      ...options
+    })
+      .catch(error => console.error(`❌ Erro inesperado no job ${job.id}:`, error.message));
+
+    res.status(202).json({
+      success: true,
+      message: `Provisionamento de '${nome}' (${template.nome}) iniciado`,
+      jobId: job.id,
+      status: job.status,
+      acompanhar: `/api/jobs/${job.id}`,
+      // Único momento em que os segredos gerados são devolvidos; depois ficam só no registro criptografado
+      segredosGerados: generated.length > 0
+        ? Object.fromEntries(generated.map(name => [name, params[name]]))
+        : undefined
+    });
+
+  } catch (error) {
+    console.error('❌ Erro ao criar stack:', error.message);
+
+    res.status(500).json({
+      error: 'Erro ao criar stack',
+      details: error.message
+    });
+  }
+});
+
+// ✏️ Endpoint para alterar a configuração de um tenant e reimplantar as stacks afetadas
+app.patch('/api/stack/:nome', authenticateToken, requireScope('stacks:write'), denyTenantBoundKeys, validateNomeParam, async (req, res) => {
+  try {
+    const { nome } = req.params;
+    const { tipo, config = {}, aguardarConvergencia = true, plano: nomePlano } = req.body || {};
+    const tenant = getTenant(nome);
+
+    if (!tenant) {
+      return res.status(404).json({ error: 'Tenant não encontrado' });
+    }
+
+    if (tenant.status === 'suspenso') {
+      return res.status(409).json({
+        error: 'Tenant suspenso',
+        message: `Reative '${nome}' com POST /api/tenants/${nome}/resume antes de alterar as stacks`
+      });
+    }
+
+    if (listJobs({ nome, status: 'executando' }).length > 0) {
+      return res.status(409).json({ error: 'Job em andamento', message: `Aguarde o job em execução de '${nome}' terminar` });
+    }
+
+    const entry = selectTenantService(tenant.servicos, tipo);
+
+    if (!entry) {
+      return res.status(400).json({
+        error: tipo ? 'Serviço não encontrado' : 'Campo obrigatório: tipo',
+        message: `Serviços de '${nome}': ${Object.keys(tenant.servicos).join(', ')}`
+      });
+    }
+
+    const [tipoServico, servico] = entry;
+    const template = getTemplate(tipoServico);
+
+    if (!template) {
+      return res.status(400).json({ error: 'Tipo não suportado', message: `Template ${tipoServico} não está carregado` });
+    }
+
+    const unknown = Object.keys(config).filter(param => !template.parametros?.[param]);
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        error: 'Parâmetros inválidos',
+        message: `Desconhecidos para ${template.nome}: ${unknown.join(', ')}`
+      });
+    }
+
+    if (servico.segredosSwarm) {
+      const swarmSecrets = Object.keys(config).filter(param => template.segredosSwarm?.[param]);
+      if (swarmSecrets.length > 0) {
+        return res.status(400).json({
+          error: 'Parâmetros guardados como secrets do Swarm',
+          message: `Use POST /api/tenants/${nome}/rotate-secrets para alterar: ${swarmSecrets.join(', ')}`
+        });
+      }
+    }
+
+    const planParams = nomePlano ? getPlanParams(nomePlano, template.nome) : {};
+
+    if (!planParams) {
+      return res.status(400).json({
+        error: 'Plano inválido',
+        message: `Planos disponíveis para ${template.nome}: ${listPlansForTemplate(template.nome).join(', ') || 'nenhum'}`
+      });
+    }
+
+    // Configuração atual (pública + segredos), depois os valores do plano novo e os campos enviados
+    const storedSecrets = getTenantSecrets(nome)[tipoServico] || {};
+    const { params, missing, invalid, generated } = resolveTemplateParams(template, {
+      config: { ...servico.config, ...storedSecrets, ...planParams, ...config }
+    });
+
+    if (missing.length > 0 || invalid.length > 0) {
+      return res.status(400).json({
+        error: 'Parâmetros inválidos',
+        message: [...missing.map(param => `${param} é obrigatório`), ...invalid].join('; ')
+      });
+    }
+
+    const headers = await getPortainerHeaders();
+    const changes = await planStackUpdate({ nome, template, servico, params, headers });
+    const secrets = [...getSecretValues(template, params), ...getSecretValues(template, storedSecrets)];
+    const diff = changes.map(change => ({
+      papel: change.papel,
+      nome: change.nome,
+      alterada: change.alterada,
+      diff: maskSecretValues(change.diff, secrets)
+    }));
+
+    const planChanged = nomePlano && nomePlano !== servico.plano;
+
+    if (!changes.some(change => change.alterada)) {
+      // Plano novo com os mesmos valores: só o registro do tenant muda
+      if (planChanged && !isDryRun(req)) {
+        saveTenantService(nome, template.nome, {
+          rede: servico.rede,
+          endpointId: servico.endpointId,
+          config: params,
+          urls: servico.urls,
+          segredosSwarm: servico.segredosSwarm,
+          plano: nomePlano
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: planChanged
+          ? `Plano de '${nome}' alterado para ${nomePlano}; nenhuma stack mudou`
+          : `Nenhuma alteração nas stacks de '${nome}'`,
+        diff
+      });
+    }
+
+    if (isDryRun(req)) {
+      return res.json({
+        success: true,
+        dryRun: true,
+        message: `${diff.filter(item => item.alterada).length} stack(s) seriam atualizadas; nada foi aplicado`,
+        segredosGerados: generated,
+        diff
+      });
+    }
+
+    const job = createJob('atualizacao', nome);
+    auditJob(req, res, job);
+
+    runStackUpdateJob(job, {
+      nome,
+      template,
+      servico: nomePlano ? { ...servico, plano: nomePlano } : servico,
+      params,
+      changes,
+      aguardarConvergencia: aguardarConvergencia !== false
+    })
+      .catch(error => console.error(`❌ Erro inesperado no job ${job.id}:`, error.message));
+
+    res.status(202).json({
+      success: true,
+      message: planChanged
+        ? `Mudança de '${nome}' (${template.nome}) para o plano ${nomePlano} iniciada`
+        : `Atualização de '${nome}' (${template.nome}) iniciada`,
+      jobId: job.id,
+      status: job.status,
+      acompanhar: `/api/jobs/${job.id}`,
+      // Parâmetros com gerar: true ainda sem valor salvo (tenants antigos) recebem um valor novo
+      segredosGerados: generated.length > 0
+        ? Object.fromEntries(generated.map(name => [name, params[name]]))
+        : undefined,
+      diff
+    });
+
+  } catch (error) {
+    console.error('❌ Erro ao atualizar stack:', error.response?.data || error.message);
+
+    if (error.response?.status === 401) {
+      jwtCache = { token: null, expiresAt: null };
+    }
+
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao atualizar stack',
+      details: error.response?.data?.message || error.message
+    });
+  }
+});
+
+// 🚀 Endpoint para criar uma campanha de atualização de versão do n8n
+app.post('/api/campanhas', authenticateToken, requireScope('stacks:write'), denyTenantBoundKeys, (req, res) => {
+  try {
+    const { versao, tenants, todos = false, excluir = [], canario = 1, lote = 5 } = req.body || {};
+    const template = getTemplate(CAMPAIGN_TEMPLATE);
+
+    if (!template) {
+      return res.status(400).json({ error: 'Tipo não suportado', message: `Template ${CAMPAIGN_TEMPLATE} não está carregado` });
+    }
+
+    if (!versao) {
+      return res.status(400).json({
+        error: 'Campo obrigatório: versao',
+        exemplo: { versao: '1.64.0', tenants: ['cliente1', 'cliente2'], canario: 1, lote: 5 }
+      });
+    }
+
+    const { invalid } = resolveTemplateParams(
+      { parametros: { [CAMPAIGN_VERSION_PARAM]: template.parametros[CAMPAIGN_VERSION_PARAM] } },
+      { config: { [CAMPAIGN_VERSION_PARAM]: versao } }
+    );
+    if (invalid.length > 0) {
+      return res.status(400).json({ error: 'Versão inválida', message: invalid.join('; ') });
+    }
+
+    if (todos !== true && (!Array.isArray(tenants) || tenants.length === 0)) {
+      return res.status(400).json({
+        error: 'Seleção de tenants obrigatória',
+        message: 'Informe "tenants" (lista de nomes) ou "todos": true'
+      });
+    }
+
+    const canarySize = parseInt(canario);
+    const batchSize = parseInt(lote);
+    if (!(canarySize >= 1) || !(batchSize >= 1)) {
+      return res.status(400).json({ error: 'Parâmetros inválidos', message: 'canario e lote devem ser inteiros maiores que zero' });
+    }
+
+    const selecao = selectCampaignTenants(template, String(versao), {
+      tenants: Array.isArray(tenants) ? tenants : [],
+      todos: todos === true,
+      excluir: Array.isArray(excluir) ? excluir : []
+    });
+
+    if (selecao.elegiveis.length === 0) {
+      return res.status(400).json({
+        error: 'Nenhum tenant para atualizar',
+        message: `Nenhum tenant selecionado precisa ir para ${versao}`,
+        ...selecao
+      });
+    }
+
+    const batches = buildCampaignBatches(selecao.elegiveis, canarySize, batchSize);
+
+    if (isDryRun(req)) {
+      return res.json({
+        success: true,
+        dryRun: true,
+        message: `${selecao.elegiveis.length} tenant(s) em ${batches.length} lote(s); nada foi aplicado`,
+        versao: String(versao),
+        lotes: batches,
+        jaNaVersao: selecao.jaNaVersao,
+        suspensos: selecao.suspensos,
+        naoEncontrados: selecao.naoEncontrados
+      });
+    }
+
+    // Duas campanhas ao mesmo tempo poderiam atualizar o mesmo tenant em paralelo
+    const running = listJobs({ tipo: 'campanha', status: 'executando', limite: 1 });
+    if (running.length > 0) {
+      return res.status(409).json({
+        error: 'Campanha em andamento',
+        message: `Aguarde a campanha ${running[0].id} terminar`,
+        acompanhar: `/api/campanhas/${running[0].id}`
+      });
+    }
+
+    const job = createJob('campanha', `${template.nome}:${versao}`);
+    auditJob(req, res, job);
+    Object.assign(job, {
+      resultado: {
+        versao: String(versao),
+        canario: canarySize,
+        lote: batchSize,
+        totalLotes: batches.length,
+        loteAtual: 0,
+        jaNaVersao: selecao.jaNaVersao,
+        suspensos: selecao.suspensos,
+        naoEncontrados: selecao.naoEncontrados,
+        tenants: batches.flatMap((batch, index) => batch.map(nome => ({ nome, lote: index + 1, status: 'pendente' })))
+      }
+    });
+    saveJob(job);
+
+    runUpgradeCampaign(job, { template, versao: String(versao), batches })
+      .catch(error => console.error(`❌ Erro inesperado na campanha ${job.id}:`, error.message));
+
+    res.status(202).json({
+      success: true,
+      message: `Campanha para ${template.nome} ${versao} iniciada com ${selecao.elegiveis.length} tenant(s) em ${batches.length} lote(s)`,
+      campanhaId: job.id,
+      lotes: batches,
+      acompanhar: `/api/campanhas/${job.id}`
+    });
+
+  } catch (error) {
+    console.error('❌ Erro ao criar campanha:', error.message);
+
+    res.status(500).json({
+      error: 'Erro ao criar campanha',
+      details: error.message
+    });
+  }
+});
+
+// 🚀 Endpoint para listar campanhas
+app.get('/api/campanhas', authenticateToken, requireScope('stacks:read'), denyTenantBoundKeys, (req, res) => {
+  const limite = Math.min(parseInt(req.query.limite) || 50, 500);
+  const campanhas = listJobs({ tipo: 'campanha', limite });
+  res.json({ success: true, campanhas });
+});
+
+// 🚀 Endpoint para consultar o progresso de uma campanha
+app.get('/api/campanhas/:id', authenticateToken, requireScope('stacks:read'), denyTenantBoundKeys, (req, res) => {
+  const job = getJob(req.params.id);
+
+  if (!job || job.tipo !== 'campanha') {
+    return res.status(404).json({ error: 'Campanha não encontrada' });
+  }
+
+  const contagem = (job.resultado?.tenants || []).reduce((acc, item) => {
+    acc[item.status] = (acc[item.status] || 0) + 1;
+    return acc;
+  }, {});
+
+  res.json({ success: true, campanha: job, contagem });
+});
+
+// 🔔 Endpoint para cadastrar um webhook de eventos de provisionamento
+app.post('/api/webhooks', authenticateToken, requireScope('admin'), (req, res) => {
+  const { url, eventos = ['*'], segredo } = req.body || {};
+
+  let parsedUrl;
+  try {
+    parsedUrl = new URL(url);
+  } catch {
+    return res.status(400).json({ error: 'URL inválida', details: 'Informe uma URL http(s) absoluta em "url"' });
+  }
+
+  if (!['http:', 'https:'].includes(parsedUrl.protocol)) {
+    return res.status(400).json({ error: 'URL inválida', details: 'Apenas http e https são suportados' });
+  }
+
+  if (!Array.isArray(eventos) || eventos.length === 0) {
+    return res.status(400).json({ error: 'Eventos inválidos', details: '"eventos" deve ser uma lista não vazia' });
+  }
+
+  const invalidos = eventos.filter(evento => evento !== '*' && !WEBHOOK_EVENTS.includes(evento));
+  if (invalidos.length > 0) {
+    return res.status(400).json({
+      error: 'Eventos inválidos',
+      details: `Eventos desconhecidos: ${invalidos.join(', ')}`,
+      eventosDisponiveis: WEBHOOK_EVENTS
+    });
+  }
+
+  if (segredo !== undefined && (typeof segredo !== 'string' || segredo.length < 16)) {
+    return res.status(400).json({ error: 'Segredo inválido', details: 'O segredo deve ter pelo menos 16 caracteres' });
+  }
+
+  // Segredo gerado é devolvido só nesta resposta; depois fica apenas criptografado no banco
+  const segredoFinal = segredo || generateSecret(48);
+  const webhook = createWebhook({ url: parsedUrl.toString(), eventos, segredo: segredoFinal });
+  addAuditResources(res, { webhooks: webhook.id });
+  console.log(`🔔 Webhook cadastrado: ${webhook.url} (${eventos.join(', ')})`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Webhook cadastrado com sucesso',
+    webhook,
+    segredo: segredo ? undefined : segredoFinal
+  });
+});
+
+// 🔔 Endpoint para listar webhooks cadastrados
+app.get('/api/webhooks', authenticateToken, requireScope('admin'), (req, res) => {
+  res.json({ success: true, webhooks: listWebhooks(), eventosDisponiveis: WEBHOOK_EVENTS });
+});
+
+// 🔔 Endpoint para remover um webhook (e seu histórico de entregas)
+app.delete('/api/webhooks/:id', authenticateToken, requireScope('admin'), (req, res) => {
+  if (!deleteWebhook(req.params.id)) {
+    return res.status(404).json({ error: 'Webhook não encontrado' });
+  }
+  addAuditResources(res, { webhooks: req.params.id });
+
+  res.json({ success: true, message: 'Webhook removido com sucesso' });
+});
+
+// 🔔 Endpoint para consultar o log de entregas de um webhook
+app.get('/api/webhooks/:id/entregas', authenticateToken, requireScope('admin'), (req, res) => {
+  const webhook = getWebhook(req.params.id);
+
+  if (!webhook) {
+    return res.status(404).json({ error: 'Webhook não encontrado' });
+  }
+
+  const limite = Math.min(parseInt(req.query.limite) || 50, 500);
+  const entregas = listWebhookDeliveries(webhook.id, { status: req.query.status, limite });
+  res.json({ success: true, webhook, entregas });
+});
+
+// 🔑 Endpoint para criar uma chave de API com escopos
+app.post('/api/keys', authenticateToken, requireScope('admin'), (req, res) => {
+  const { nome, escopos, expiraEm, tenants } = req.body || {};
+
+  if (!nome || typeof nome !== 'string') {
+    return res.status(400).json({ error: 'Nome obrigatório', details: 'Informe um nome para identificar a chave' });
+  }
+
+  if (!Array.isArray(escopos) || escopos.length === 0) {
+    return res.status(400).json({ error: 'Escopos inválidos', details: '"escopos" deve ser uma lista não vazia', escoposDisponiveis: API_KEY_SCOPES });
+  }
+
+  const invalidos = escopos.filter(escopo => !API_KEY_SCOPES.includes(escopo));
+  if (invalidos.length > 0) {
+    return res.status(400).json({
+      error: 'Escopos inválidos',
+      details: `Escopos desconhecidos: ${invalidos.join(', ')}`,
+      escoposDisponiveis: API_KEY_SCOPES
+    });
+  }
+
+  if (tenants !== undefined && tenants !== null) {
+    if (!Array.isArray(tenants) || tenants.length === 0) {
+      return res.status(400).json({ error: 'Tenants inválidos', details: '"tenants" deve ser uma lista não vazia de nomes' });
+    }
+
+    const naoEncontrados = tenants.filter(tenant => validateNome(tenant) || !getTenant(tenant));
+    if (naoEncontrados.length > 0) {
+      return res.status(400).json({ error: 'Tenants inválidos', details: `Tenants não encontrados: ${naoEncontrados.join(', ')}` });
+    }
+
+    const naoPermitidos = escopos.filter(escopo => !TENANT_KEY_SCOPES.includes(escopo));
+    if (naoPermitidos.length > 0) {
+      return res.status(400).json({
+        error: 'Escopos inválidos',
+        details: `Chaves vinculadas a tenants aceitam apenas: ${TENANT_KEY_SCOPES.join(', ')}`
+      });
+    }
+  }
+
+  let expiracao = null;
+  if (expiraEm !== undefined && expiraEm !== null) {
+    const data = new Date(expiraEm);
+    if (Number.isNaN(data.getTime()) || data <= new Date()) {
+      return res.status(400).json({ error: 'Expiração inválida', details: '"expiraEm" deve ser uma data ISO no futuro' });
+    }
+    expiracao = data.toISOString();
+  }
+
+  const { apiKey, chave } = createApiKey({
+    nome,
+    escopos: [...new Set(escopos)],
+    expiraEm: expiracao,
+    tenants: tenants ? [...new Set(tenants)] : null
+  });
+  addAuditResources(res, { chaves: { id: apiKey.id, nome: apiKey.nome } });
+  console.log(`🔑 Chave de API criada: ${apiKey.nome} (${apiKey.escopos.join(', ')}${apiKey.tenants ? `; tenants: ${apiKey.tenants.join(', ')}` : ''}) por ${req.apiKey.nome}`);
+
+  res.status(201).json({
+    success: true,
+    message: 'Chave criada com sucesso. Guarde o valor de "chave": ele não é exibido novamente',
+    apiKey,
+    chave
+  });
+});
+
+// 🔑 Endpoint para listar chaves de API (sem o valor da chave)
+app.get('/api/keys', authenticateToken, requireScope('admin'), (req, res) => {
+  res.json({ success: true, keys: listApiKeys(), escoposDisponiveis: API_KEY_SCOPES });
+});
+
+// 🔑 Endpoint para revogar uma chave de API
+app.delete('/api/keys/:id', authenticateToken, requireScope('admin'), (req, res) => {
+  if (req.apiKey.id === req.params.id) {
+    return res.status(409).json({ error: 'Operação não permitida', message: 'Uma chave não pode revogar a si mesma' });
+  }
+
+  if (!deleteApiKey(req.params.id)) {
+    return res.status(404).json({ error: 'Chave não encontrada' });
+  }
+
+  addAuditResources(res, { chaves: req.params.id });
+  console.log(`🔑 Chave de API ${req.params.id} revogada por ${req.apiKey.nome}`);
+  res.json({ success: true, message: 'Chave revogada com sucesso' });
+});
+
+// 📜 Endpoint para consultar a auditoria (filtros: tenant, ator, acao, desde, ate)
+app.get('/api/audit', authenticateToken, requireScope('admin'), (req, res) => {
+  const { tenant, ator, acao, desde, ate } = req.query;
+  const periodo = Object.entries({ desde, ate })
+    .filter(([, valor]) => valor !== undefined)
+    .map(([campo, valor]) => ({ campo, data: new Date(String(valor)) }));
+
+  const invalido = periodo.find(({ data }) => Number.isNaN(data.getTime()));
+  if (invalido) {
+    return res.status(400).json({ error: 'Período inválido', message: `"${invalido.campo}" deve ser uma data ISO` });
+  }
+
+  const limite = Math.min(parseInt(req.query.limite) || 100, 1000);
+  const registros = listAudit({ tenant, ator, acao, ...Object.fromEntries(periodo.map(({ campo, data }) => [campo, data.toISOString()])), limite });
+  res.json({ success: true, total: registros.length, registros });
+});
+
+// 📋 Endpoint para consultar um job de provisionamento
+app.get('/api/jobs/:id', authenticateToken, requireScope('stacks:read'), (req, res) => {
+  const job = getJob(req.params.id);
+
+  if (!job || !canAccessTenant(req.apiKey, job.nome)) {
+    return res.status(404).json({ error: 'Job não encontrado' });
+  }
+
+  res.json({ success: true, job });
+});
+
+// 📋 Endpoint para listar jobs (filtro opcional por nome)
+app.get('/api/jobs', authenticateToken, requireScope('stacks:read'), (req, res) => {
+  const limite = Math.min(parseInt(req.query.limite) || 50, 500);
+  const jobs = listJobs({ nome: req.query.nome, nomes: req.apiKey.tenants || undefined, limite });
+  res.json({ success: true, jobs });
+});
+
+// 🩺 Endpoint para verificar a convergência dos serviços de um tenant
+app.get('/api/stack/:nome/status', authenticateToken, requireScope('stacks:read'), validateNomeParam, requireTenantAccess, async (req, res) => {
+  try {
+    const { nome } = req.params;
+    const headers = await getPortainerHeaders();
+
+    const stackNames = getTenantStackNames(nome);
+    const tenantStacks = (await listPortainerStacks(headers))
+      .filter(stack => stackNames.includes(stack.Name));
+
+    if (tenantStacks.length === 0) {
+      return res.status(404).json({
+        error: 'Tenant não encontrado',
+        message: `Nenhuma stack encontrada para '${nome}'`
+      });
+    }
+
+    const stacks = [];
+    for (const stack of tenantStacks) {
+      stacks.push({ id: stack.Id, ...(await checkStackConvergence(stack.Name, stack.EndpointId, headers)) });
+    }
+
+    res.json({
+      success: true,
+      nome,
+      status: aggregateConvergenceStatus(stacks.map(stack => stack.status)),
+      stacks
+    });
+
+  } catch (error) {
+    console.error('❌ Erro ao verificar status do tenant:', error.response?.data || error.message);
+
+    if (error.response?.status === 401) {
+      jwtCache = { token: null, expiresAt: null };
+    }
+
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao verificar status do tenant',
+      details: error.response?.data || error.message
+    });
+  }
+});
+
+// 🗑️ Endpoint para remover todos os recursos de um tenant (stacks, túnel, DNS e volume opcional)
+app.delete('/api/stack/:nome', authenticateToken, requireScope('stacks:write'), denyTenantBoundKeys, validateNomeParam, async (req, res) => {
+  try {
+    const { nome } = req.params;
+    const removerVolume = String(req.query.removerVolume ?? req.body?.removerVolume ?? 'false') === 'true';
+
+    const headers = await getPortainerHeaders();
+
+    console.log(`🧹 Removendo recursos do tenant '${nome}'...`);
+
+    const stackNames = getTenantStackNames(nome);
+    const tenantStacks = (await listPortainerStacks(headers))
+      .filter(stack => stackNames.includes(stack.Name));
+
+    const stacks = [];
+    const tunel = [];
+    const dns = [];
+    const volumes = [];
+    const segredos = [];
+
+    // Volumes externos vêm dos composes implantados, lidos antes de remover as stacks
+    const externalVolumes = [];
+    if (removerVolume) {
+      for (const stack of tenantStacks) {
+        const compose = YAML.parse(await getPortainerStackFile(stack, headers));
+        for (const volumeName of getExternalResources([{ compose }]).volumes) {
+          externalVolumes.push({ nome: volumeName, endpointId: stack.EndpointId || PORTAINER_ENDPOINT_ID });
+        }
+      }
+    }
+
+    // 1️⃣ Stacks no Portainer
+    for (const stack of tenantStacks) {
+      try {
+        await deletePortainerStack(stack, headers);
+        stacks.push({ name: stack.Name, id: stack.Id, status: 'removida' });
+      } catch (error) {
+        stacks.push({ name: stack.Name, id: stack.Id, status: 'erro', error: error.response?.data?.message || error.message });
+        console.error(`❌ Erro ao remover stack ${stack.Name}:`, error.message);
+      }
+    }
+
+    // No túnel, os hostnames registrados para o tenant somam-se aos nomes padrão
+    // No DNS, só os registros que a API criou para o tenant (um nome pode ter outros registros)
+    const registeredResources = listTenantResources(nome);
+    const tunnelHostnames = [...new Set([
+      ...getTenantHostnames(nome).map(hostname => `${hostname}.${DOMAIN}`),
+      ...registeredResources.filter(resource => resource.tipo === 'tunel').map(resource => resource.nome)
+    ])];
+    const dnsResources = registeredResources.filter(resource => resource.tipo === 'dns');
+
+    // 2️⃣ Hostnames do túnel Cloudflare
+    const tunnelConfigured = !!(CLOUDFLARE_API_TOKEN && CLOUDFLARE_ACCOUNT_ID && CLOUDFLARE_TUNNEL_ID);
+
+    for (const fullHostname of tunnelHostnames) {
+      if (!tunnelConfigured) {
+        tunel.push({ hostname: fullHostname, status: 'ignorado', motivo: 'Túnel Cloudflare não configurado' });
+        continue;
+      }
+      try {
+        const result = await removeHostnameFromTunnel(fullHostname);
+        tunel.push({ hostname: fullHostname, status: result.removed ? 'removido' : 'nao_encontrado' });
+      } catch (error) {
+        tunel.push({ hostname: fullHostname, status: 'erro', error: error.response?.data || error.message });
+      }
+    }
+
+    // 3️⃣ Registros DNS na Cloudflare
+    const dnsConfigured = !!(CLOUDFLARE_API_TOKEN && CLOUDFLARE_ZONE_ID && CLOUDFLARE_DOMAIN);
+
+    for (const { nome: hostname, dados } of dnsResources) {
+      if (!dnsConfigured) {
+        dns.push({ nome: hostname, status: 'ignorado', motivo: 'Cloudflare DNS não configurado' });
+        continue;
+      }
+      try {
+        // Remove só o registro criado: o tipo e o conteúdo salvos ou, sem eles, o CNAME do túnel
+        const result = await deleteCloudflareRecord(hostname, dados || { tipo: 'CNAME', content: getTunnelTarget() });
+        dns.push({
+          nome: result.subdomain,
+          registro: hostname,
+          status: result.removedIds.length > 0 ? 'removido' : 'nao_encontrado',
+          recordIds: result.removedIds
+        });
+      } catch (error) {
+        dns.push({ nome: hostname, status: 'erro', error: error.response?.data || error.message });
+      }
+    }
+
+    // 4️⃣ Volumes externos das stacks (opcional)
+    for (const { nome: volumeName, endpointId } of externalVolumes) {
+      try {
+        const result = await removeDockerVolume(volumeName, endpointId, headers);
+        volumes.push({ nome: volumeName, status: result.removed ? 'removido' : 'nao_encontrado' });
+      } catch (error) {
+        volumes.push({ nome: volumeName, status: 'erro', error: error.response?.data?.message || error.message });
+      }
+    }
+
+    // 5️⃣ Secrets do Swarm registrados para o tenant, no endpoint das stacks do template que os usa
+    const getSecretEndpointId = (secret) => {
+      const templateStackNames = (getTemplate(secret.dados?.tipo)?.stacks || [])
+        .map(stack => renderTemplateValue(stack.nome, { nome }));
+      return tenantStacks.find(stack => templateStackNames.includes(stack.Name))?.EndpointId || PORTAINER_ENDPOINT_ID;
+    };
+
+    for (const secret of registeredResources.filter(resource => resource.tipo === 'segredo')) {
+      try {
+        const result = await removeDockerSecret(secret.nome, getSecretEndpointId(secret), headers);
+        segredos.push({ nome: secret.nome, status: result.removed ? 'removido' : 'nao_encontrado' });
+      } catch (error) {
+        segredos.push({ nome: secret.nome, status: 'erro', error: error.response?.data?.message || error.message });
+      }
+    }
+
+    const report = { stacks, tunel, dns, volumes, segredos };
+    const resources = [...stacks, ...tunel, ...dns, ...volumes, ...segredos];
+    const failures = resources.filter(resource => resource.status === 'erro');
+    const removed = resources.filter(resource => resource.status === 'removida' || resource.status === 'removido');
+
+    // Atualiza o registro: remove o tenant inteiro ou só o que saiu de fato
+    if (failures.length === 0) {
+      deleteTenant(nome);
+    } else {
+      report.stacks.filter(item => item.status === 'removida').forEach(item => removeTenantResource(nome, 'stack', item.name));
+      const gone = (item) => item.status === 'removido' || item.status === 'nao_encontrado';
+      report.tunel.filter(gone).forEach(item => removeTenantResource(nome, 'tunel', item.hostname));
+      report.dns.filter(gone).forEach(item => removeTenantResource(nome, 'dns', item.registro));
+      report.segredos.filter(gone).forEach(item => removeTenantResource(nome, 'segredo', item.nome));
+    }
+
+    if (tenantStacks.length === 0 && removed.length === 0 && failures.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: 'Tenant não encontrado',
+        message: `Nenhuma stack, hostname ou registro DNS encontrado para '${nome}'`,
+        ...report
+      });
+    }
+
+    addAuditResources(res, {
+      stacks: report.stacks.filter(item => item.status === 'removida').map(item => ({ id: item.id, nome: item.name })),
+      tunel: report.tunel.filter(item => item.status === 'removido').map(item => item.hostname),
+      dns: report.dns.filter(item => item.status === 'removido').flatMap(item => (item.recordIds || []).map(id => ({ id, nome: item.nome }))),
+      volumes: report.volumes.filter(item => item.status === 'removido').map(item => item.nome),
+      segredos: report.segredos.filter(item => item.status === 'removido').map(item => item.nome)
+    });
+
+    emitEvent('tenant.removido', {
+      nome,
+      completo: failures.length === 0,
+      removidos: removed.map(resource => resource.name || resource.hostname || resource.nome),
+      falhas: failures.length
+    });
+
+    res.status(failures.length > 0 ? 207 : 200).json({
+      success: failures.length === 0,
+      message: failures.length === 0
+        ? `Tenant '${nome}' removido com sucesso`
+        : `Tenant '${nome}' removido parcialmente (${failures.length} falha(s))`,
+      ...report
+    });
+
+  } catch (error) {
+    console.error('❌ Erro ao remover tenant:', error.response?.data || error.message);
+
+    if (error.response?.status === 401) {
+      jwtCache = { token: null, expiresAt: null };
+    }
+
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao remover tenant',
+      details: error.response?.data || error.message
+    });
+  }
+});
+
+// ☁️ Endpoint para criar subdomínio na Cloudflare
+app.post('/api/cloudflare', authenticateToken, requireScope('dns:write'), async (req, res) => {
+  try {
+    const { nome, tipo, ipServidor, content, proxied, tenant, ttl = 1, prioridade, peso, porta, falharSeExistir = false } = req.body;
+
+    if (!nome || !tipo) {
+      return res.status(400).json({ 
+        error: 'Campos obrigatórios: nome, tipo',
+        exemplos: {
+          A: {
+            nome: 'redis-app1',
+            tipo: 'A',
+            ipServidor: '1.2.3.4',
+            proxied: true
+          },
+          CNAME: {
+            nome: 'redis-app1',
+            tipo: 'CNAME',
+            ipServidor: 'new.hostexpert.com.br',
+            proxied: false
+          },
+          TXT: {
+            nome: '_verificacao.cliente1',
+            tipo: 'TXT',
+            content: 'token-de-verificacao'
+          },
+          MX: {
+            nome: 'cliente1',
+            tipo: 'MX',
+            content: 'mx1.provedor.com',
+            prioridade: 10
+          },
+          SRV: {
+            nome: '_sip._tcp.cliente1',
+            tipo: 'SRV',
+            content: 'sip.provedor.com',
+            prioridade: 10,
+            peso: 5,
+            porta: 5060
+          }
+        }
+      });
+    }
+
+    const nameError = validateDnsNome(nome);
+    if (nameError) {
+      return res.status(400).json({ error: 'Nome inválido', message: nameError });
+    }
+
+    const targetValue = ipServidor || content;
+
+    if (!targetValue) {
+      return res.status(400).json({ 
+        error: 'Campo obrigatório: ipServidor ou content',
+        message: 'Informe o IP (tipo A/AAAA), o domínio (CNAME, MX, SRV) ou o texto (TXT) do registro'
+      });
+    }
+
+    const tipoUpper = tipo.toUpperCase();
+    
+    if (!DNS_RECORD_TYPES.includes(tipoUpper)) {
+      return res.status(400).json({
+        error: 'Tipo de registro inválido',
+        message: `Tipos permitidos: ${DNS_RECORD_TYPES.join(', ')}`
+      });
+    }
+
+    if (!Number.isInteger(ttl) || (ttl !== 1 && (ttl < 60 || ttl > 86400))) {
+      return res.status(400).json({
+        error: 'TTL inválido',
+        message: 'Use 1 (automático) ou um valor entre 60 e 86400 segundos'
+      });
+    }
+
+    const isPort = (value) => Number.isInteger(value) && value >= 0 && value <= 65535;
+    const obrigatorios = tipoUpper === 'SRV' ? { prioridade, peso, porta } : tipoUpper === 'MX' ? { prioridade } : {};
+    const invalidos = Object.entries(obrigatorios).filter(([, value]) => !isPort(value)).map(([campo]) => campo);
+
+    if (invalidos.length > 0) {
+      return res.status(400).json({
+        error: `Campos inválidos para ${tipoUpper}: ${invalidos.join(', ')}`,
+        message: 'Informe números inteiros entre 0 e 65535'
+      });
+    }
+
+    if (tipoUpper === 'SRV' && !/^_[a-z0-9-]+\._(tcp|udp|tls)(\.|$)/i.test(nome)) {
+      return res.status(400).json({
+        error: 'Nome inválido para SRV',
+        message: 'O nome deve começar com _servico._protocolo (ex: _sip._tcp.cliente1)'
+      });
+    }
+
+    let proxiedValue;
+    if (DNS_MULTI_VALUE_TYPES.includes(tipoUpper)) {
+      proxiedValue = false;
+    } else if (proxied !== undefined) {
+      proxiedValue = Boolean(proxied);
+    } else {
+      proxiedValue = tipoUpper !== 'CNAME';
+    }
+
+    // Registros proxied sempre usam TTL automático na Cloudflare
+    if (proxiedValue && ttl !== 1) {
+      return res.status(400).json({
+        error: 'TTL inválido',
+        message: 'Registros com proxied: true usam TTL automático (1); envie "proxied": false para um TTL personalizado'
+      });
+    }
+
+    // Nomes de host não levam esquema; IPs e textos TXT seguem como vieram
+    const target = ['CNAME', 'MX', 'SRV'].includes(tipoUpper) ? targetValue.replace(/^https?:\/\//, '') : targetValue;
+    const opcoes = { ttl, prioridade, peso, porta, falharSeExistir: Boolean(falharSeExistir) };
+
+    if (isDryRun(req)) {
+      const plano = await planCloudflareRecord(nome, tipoUpper, target, proxiedValue, opcoes);
+      const conflito = opcoes.falharSeExistir && plano.acao === 'atualizar'
+        ? `Registro ${plano.subdomain} já existe e a criação falharia (falharSeExistir)`
+        : plano.conflito;
+
+      return res.json({
+        success: true,
+        dryRun: true,
+        message: `Plano para '${plano.subdomain}': ${plano.acao}; nada foi aplicado`,
+        plano: {
+          dns: [plano],
+          conflitos: conflito ? [{ tipo: 'dns', nome: plano.subdomain, message: conflito }] : []
+        }
+      });
+    }
+
+    let record;
+    try {
+      record = await createCloudflareRecord(nome, tipoUpper, target, proxiedValue, opcoes);
+    } catch (error) {
+      if (!error.registroAtual) throw error;
+      return res.status(409).json({
+        error: 'Registro já existe',
+        message: `${error.message}; remova-o ou envie sem falharSeExistir para atualizar`,
+        registroAtual: error.registroAtual
+      });
+    }
+
+    if (tenant && getTenant(tenant)) {
+      recordTenantResource(tenant, 'dns', nome, record.id, { tipo: tipoUpper, content: target, proxied: proxiedValue });
+    }
+    addAuditResources(res, { dns: { id: record.id, nome: record.name } });
+    emitEvent('dns.criado', { nome: tenant || null, registro: record.name, tipo: tipoUpper, content: target, id: record.id });
+
+    res.json({
+      success: true,
+      message: `Subdomínio '${nome}.${CLOUDFLARE_DOMAIN}' criado/atualizado com sucesso`,
+      subdomain: `${nome}.${CLOUDFLARE_DOMAIN}`,
+      ...(tipoUpper === 'CNAME' ? { target } : ['A', 'AAAA'].includes(tipoUpper) ? { ip: target } : { content: target }),
+      proxied: proxiedValue,
+      ttl,
+      recordId: record.id,
+      data: record
+    });
+
+  } catch (error) {
+    console.error('❌ Erro ao criar subdomínio na Cloudflare');
+    if (error.response) {
+      console.error('Status:', error.response.status);
+      console.error('Body da resposta:', JSON.stringify(error.response.data, null, 2));
+    } else {
+      console.error('Erro:', error.message);
+    }
+
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao criar subdomínio na Cloudflare',
+      details: error.response?.data || error.message
+    });
+  }
+});
+
+// ☁️ Endpoint para listar registros DNS da zona
+app.get('/api/cloudflare/records', authenticateToken, requireScope('dns:read'), async (req, res) => {
+  try {
+    const { nome, tipo } = req.query;
+    const pagina = Math.max(parseInt(req.query.pagina) || 1, 1);
+    const porPagina = Math.min(Math.max(parseInt(req.query.porPagina) || 100, 5), 5000);
+
+    const { registros, paginacao } = await listCloudflareRecords({
+      nome,
+      tipo: tipo ? String(tipo).toUpperCase() : undefined,
+      pagina,
+      porPagina
+    });
+
+    res.json({ success: true, total: registros.length, registros, paginacao });
+  } catch (error) {
+    console.error('❌ Erro ao listar registros na Cloudflare:', error.response?.data || error.message);
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao listar registros na Cloudflare',
+      details: error.response?.data || error.message
+    });
+  }
+});
+
+// 🚇 Endpoint para adicionar hostname ao túnel Cloudflare
+app.post('/api/cloudflare/tunnel', authenticateToken, requireScope('tunnel:write'), async (req, res) => {
+  try {
+    const { hostname, service, port = 80, protocol = 'http', tenant, originRequest } = req.body;
+
+    if (!hostname || !service) {
+      return res.status(400).json({ 
+        error: 'Campos obrigatórios: hostname, service',
+        exemplos: {
+          'N8N Editor': {
+            hostname: 'editor.cliente1',
+            service: 'http://n8n_editor_cliente1:5678',
+            description: `Será criado: editor.cliente1.${DOMAIN}`
+          },
+          'N8N Webhook': {
+            hostname: 'webhook.cliente1',
+            service: 'http://n8n_webhook_cliente1:5678',
+            description: `Será criado: webhook.cliente1.${DOMAIN}`
+          },
+          'Redis': {
+            hostname: 'redis-app1',
+            service: 'tcp://redis-app1:6379',
+            description: `Será criado: redis-app1.${DOMAIN}`
+          },
+          'Com porta customizada': {
+            hostname: 'app',
+            service: 'myservice',
+            port: 8080,
+            protocol: 'http',
+            description: `Será criado: app.${DOMAIN}`
+          }
+        }
+      });
+    }
+
+    const fullHostname = getFullHostname(hostname);
+
+    // Se o service não contém protocolo, adiciona automaticamente
+    let serviceUrl = service;
+    if (!service.includes('://')) {
+      serviceUrl = `${protocol}://${service}:${port}`;
+    }
+
+    if (isDryRun(req)) {
+      const plano = await planTunnelHostname(fullHostname, serviceUrl, originRequest);
+
+      return res.json({
+        success: true,
+        dryRun: true,
+        message: `Plano para '${fullHostname}': ${plano.acao}; nada foi aplicado`,
+        plano: {
+          tunel: [plano],
+          conflitos: plano.conflito ? [{ tipo: 'tunel', nome: fullHostname, message: plano.conflito }] : []
+        }
+      });
+    }
+
+    const result = await addHostnameToTunnel(fullHostname, serviceUrl, originRequest);
+
+    if (tenant && getTenant(tenant)) {
+      recordTenantResource(tenant, 'tunel', fullHostname, null, { service: serviceUrl });
+    }
+    addAuditResources(res, { tunel: fullHostname });
+    emitEvent('tunel.adicionado', { nome: tenant || null, hostname: fullHostname, service: serviceUrl });
+
+    res.json({
+      success: true,
+      message: `Hostname '${fullHostname}' adicionado ao túnel com sucesso`,
+      hostname: fullHostname,
+      hostnameInformado: hostname,
+      service: serviceUrl,
+      tunnelId: result.tunnelId,
+      data: result
+    });
+
+  } catch (error) {
+    console.error('❌ Erro ao adicionar hostname ao túnel');
+    if (error.response) {
+      console.error('Status:', error.response.status);
+      console.error('Body da resposta:', JSON.stringify(error.response.data, null, 2));
+    } else {
+      console.error('Erro:', error.message);
+    }
+
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao adicionar hostname ao túnel Cloudflare',
+      details: error.response?.data || error.message
+    });
+  }
+});
+
+// 🚇 Endpoint para listar as regras de ingress do túnel (na ordem avaliada pelo cloudflared)
+app.get('/api/cloudflare/tunnel', authenticateToken, requireScope('tunnel:read'), async (req, res) => {
+  try {
+    const ingress = await getTunnelIngress();
+    const regras = ingress.map((rule, posicao) => ({ posicao, catchAll: !rule.hostname && !rule.path, ...rule }));
+
+    res.json({ success: true, tunnelId: CLOUDFLARE_TUNNEL_ID, total: regras.length, regras });
+  } catch (error) {
+    console.error('❌ Erro ao listar regras do túnel:', error.response?.data || error.message);
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao listar regras do túnel Cloudflare',
+      details: error.response?.data || error.message
+    });
+  }
+});
+
+// 🚇 Endpoint para alterar service, originRequest ou posição de um hostname do túnel
+app.patch('/api/cloudflare/tunnel/:hostname', authenticateToken, requireScope('tunnel:write'), async (req, res) => {
+  try {
+    const fullHostname = getFullHostname(req.params.hostname);
+    const { service, port = 80, protocol = 'http', originRequest, posicao } = req.body || {};
+
+    if (service === undefined && originRequest === undefined && posicao === undefined) {
+      return res.status(400).json({
+        error: 'Nada para alterar',
+        message: 'Informe service, originRequest e/ou posicao',
+        exemplo: { service: 'http://n8n_editor_cliente1:5678', originRequest: { connectTimeout: '30s', noTLSVerify: null }, posicao: 0 }
+      });
+    }
+
+    if (service !== undefined && (typeof service !== 'string' || !service)) {
+      return res.status(400).json({ error: 'service inválido', message: 'Informe o destino, ex: http://servico:5678' });
+    }
+
+    if (originRequest !== undefined && (!originRequest || typeof originRequest !== 'object' || Array.isArray(originRequest))) {
+      return res.status(400).json({ error: 'originRequest inválido', message: 'originRequest deve ser um objeto (chaves com null são removidas)' });
+    }
+
+    if (posicao !== undefined && !(Number.isInteger(posicao) && posicao >= 0)) {
+      return res.status(400).json({ error: 'posicao inválida', message: 'posicao deve ser um inteiro >= 0 (índice na lista de GET /api/cloudflare/tunnel)' });
+    }
+
+    const serviceUrl = service === undefined || service.includes('://') ? service : `${protocol}://${service}:${port}`;
+    const result = await updateTunnelHostname(fullHostname, { service: serviceUrl, originRequest, posicao });
+
+    if (!result.updated) {
+      return res.status(404).json({ error: 'Hostname não encontrado', message: `'${fullHostname}' não está configurado no túnel` });
+    }
+
+    // Mantém o destino registrado no tenant (usado no resume da suspensão) igual ao do túnel
+    if (serviceUrl) {
+      for (const tenant of findResourceTenants('tunel', fullHostname)) {
+        recordTenantResource(tenant, 'tunel', fullHostname, null, { service: serviceUrl });
+      }
+    }
+    addAuditResources(res, { tunel: fullHostname });
+
+    res.json({
+      success: true,
+      message: `Regra de '${fullHostname}' atualizada no túnel`,
+      hostname: fullHostname,
+      posicao: result.posicao,
+      regra: result.regra,
+      tunnelId: result.tunnelId
+    });
+  } catch (error) {
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao atualizar hostname no túnel Cloudflare',
+      details: error.response?.data || error.message
+    });
+  }
+});
+
+// 🚇 Endpoint para remover um hostname do túnel
+app.delete('/api/cloudflare/tunnel/:hostname', authenticateToken, requireScope('tunnel:write'), async (req, res) => {
+  try {
+    const fullHostname = getFullHostname(req.params.hostname);
+    const result = await removeHostnameFromTunnel(fullHostname);
+
+    if (!result.removed) {
+      return res.status(404).json({ error: 'Hostname não encontrado', message: `'${fullHostname}' não está configurado no túnel` });
+    }
+
+    for (const tenant of findResourceTenants('tunel', fullHostname)) {
+      removeTenantResource(tenant, 'tunel', fullHostname);
+    }
+    addAuditResources(res, { tunel: fullHostname });
+
+    res.json({
+      success: true,
+      message: `Hostname '${fullHostname}' removido do túnel`,
+      hostname: fullHostname,
+      tunnelId: result.tunnelId
+    });
+  } catch (error) {
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao remover hostname do túnel Cloudflare',
+      details: error.response?.data || error.message
+    });
+  }
+});
+
+// 🚇 DELETE sem hostname não pode cair na rota de DNS (/api/cloudflare/:nome com nome 'tunnel')
+app.delete('/api/cloudflare/tunnel', authenticateToken, requireScope('tunnel:write'), (req, res) => {
+  res.status(400).json({
+    error: 'Parâmetro obrigatório: hostname',
+    message: 'Use DELETE /api/cloudflare/tunnel/:hostname'
+  });
+});
+
+// ☁️ Endpoint para remover registros DNS de um nome (do tipo informado, opcionalmente só o de um content)
+// Registrado depois das rotas /api/cloudflare/tunnel para não capturar os caminhos do túnel
+app.delete('/api/cloudflare/:nome', authenticateToken, requireScope('dns:write'), validateDnsNomeParam, async (req, res) => {
+  try {
+    const { nome } = req.params;
+    const tipo = String(req.query.tipo ?? req.body?.tipo ?? '').toUpperCase();
+    const content = req.query.content ?? req.body?.content;
+    const tenant = req.query.tenant ?? req.body?.tenant;
+
+    if (!DNS_RECORD_TYPES.includes(tipo)) {
+      return res.status(400).json({
+        error: tipo ? 'Tipo de registro inválido' : 'Campo obrigatório: tipo',
+        message: `Informe o tipo do registro a remover: ${DNS_RECORD_TYPES.join(', ')}`
+      });
+    }
+
+    const result = await deleteCloudflareRecord(nome, { tipo, content });
+
+    if (result.removedIds.length === 0) {
+      return res.status(404).json({
+        error: 'Registro não encontrado',
+        message: `Nenhum registro ${tipo} para '${result.subdomain}'`
+      });
+    }
+
+    if (tenant && getTenant(tenant)) {
+      removeTenantResource(tenant, 'dns', nome);
+    }
+    addAuditResources(res, { dns: result.removedIds.map(id => ({ id, nome: result.subdomain })) });
+
+    res.json({
+      success: true,
+      message: `${result.removedIds.length} registro(s) de '${result.subdomain}' removido(s)`,
+      subdomain: result.subdomain,
+      recordIds: result.removedIds
+    });
+  } catch (error) {
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao remover registro na Cloudflare',
+      details: error.response?.data || error.message
+    });
+  }
+});
+
+// Endpoint para listar stacks
+app.get('/api/stacks', authenticateToken, requireScope('stacks:read'), async (req, res) => {
+  try {
+    const headers = await getPortainerHeaders();
+    let stacks = await listPortainerStacks(headers);
+
+    // Chaves vinculadas só enxergam as stacks registradas para os seus tenants
+    if (req.apiKey.tenants) {
+      const allowed = new Set(req.apiKey.tenants.flatMap(nome =>
+        listTenantResources(nome).filter(recurso => recurso.tipo === 'stack').map(recurso => recurso.nome)
+      ));
+      stacks = stacks.filter(stack => allowed.has(stack.Name));
+    }
+
+    res.json({ success: true, stacks });
+  } catch (error) {
+    console.error('Erro ao listar stacks:', error.response?.data || error.message);
+    
+    if (error.response?.status === 401) {
+      jwtCache = { token: null, expiresAt: null };
+    }
+
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao listar stacks',
+      details: error.response?.data || error.message
+    });
+  }
+});
+
+// 🗂️ Endpoint para listar tenants registrados
+app.get('/api/tenants', authenticateToken, requireScope('stacks:read'), (req, res) => {
+  const tenants = listTenants().filter(tenant => canAccessTenant(req.apiKey, tenant.nome));
+  res.json({ success: true, tenants });
+});
+
+// 🗂️ Endpoint para detalhar um tenant (config, URLs e recursos; segredos nunca são retornados)
+app.get('/api/tenants/:nome', authenticateToken, requireScope('stacks:read'), requireTenantAccess, (req, res) => {
+  const tenant = getTenant(req.params.nome);
+
+  if (!tenant) {
+    return res.status(404).json({ error: 'Tenant não encontrado' });
+  }
+
+  res.json({ success: true, tenant });
+});
+
+// 📜 Endpoint para ler (ou acompanhar via SSE) os logs de um papel do tenant
+app.get('/api/tenants/:nome/logs', authenticateToken, requireScope('stacks:read'), validateNomeParam, requireTenantAccess, async (req, res) => {
+  try {
+    const { nome } = req.params;
+    const { role, since, tail = '200', grep, follow } = req.query;
+    const tenant = getTenant(nome);
+
+    if (!tenant) {
+      return res.status(404).json({ error: 'Tenant não encontrado' });
+    }
+
+    const stacks = getTenantStacks(tenant);
+    const stack = stacks.find(item => item.papel === role);
+
+    if (!stack) {
+      return res.status(400).json({
+        error: role ? 'role inválido' : 'Parâmetro obrigatório: role',
+        message: `Papéis de '${nome}': ${stacks.map(item => item.papel).join(', ')}`
+      });
+    }
+
+    const sinceTimestamp = parseLogSince(since);
+    if (sinceTimestamp === null) {
+      return res.status(400).json({ error: 'since inválido', message: 'Use uma duração (30s, 15m, 2h, 1d), data ISO ou timestamp unix' });
+    }
+
+    const tailLines = tail === 'all' ? 'all' : parseInt(tail);
+    if (tailLines !== 'all' && !(tailLines >= 1 && tailLines <= LOGS_MAX_TAIL)) {
+      return res.status(400).json({ error: 'tail inválido', message: `Use 'all' ou um número entre 1 e ${LOGS_MAX_TAIL}` });
+    }
+
+    if (grep !== undefined && (typeof grep !== 'string' || grep.length > LOGS_MAX_GREP)) {
+      return res.status(400).json({ error: 'grep inválido', message: `Informe um texto de até ${LOGS_MAX_GREP} caracteres` });
+    }
+    const matches = (entry) => !grep || entry.mensagem.includes(grep);
+
+    const headers = await getPortainerHeaders();
+    const services = await getStackServices(stack.nome, stack.endpointId, headers);
+
+    if (services.length === 0) {
+      return res.status(404).json({ error: 'Serviço não encontrado', message: `Nenhum serviço da stack ${stack.nome} no Swarm` });
+    }
+
+    const seguir = follow === 'true' || follow === '1' || req.headers.accept === 'text/event-stream';
+
+    // Sem follow a resposta é montada em memória: 'all' fica limitado a LOGS_MAX_TAIL linhas por serviço
+    const options = { since: sinceTimestamp, tail: tailLines === 'all' && !seguir ? LOGS_MAX_TAIL : tailLines };
+
+    if (seguir) {
+      return await streamServiceLogs(res, services, stack.endpointId, headers, options, matches);
+    }
+
+    const linhas = [];
+    for (const service of services) {
+      linhas.push(...(await getServiceLogs(service, stack.endpointId, headers, options)));
+    }
+
+    const filtradas = linhas
+      .filter(matches)
+      .sort((a, b) => String(a.timestamp).localeCompare(String(b.timestamp)));
+
+    res.json({
+      success: true,
+      nome,
+      role,
+      stack: stack.nome,
+      servicos: services.map(service => service.Spec.Name),
+      total: filtradas.length,
+      linhas: filtradas
+    });
+
+  } catch (error) {
+    console.error('❌ Erro ao buscar logs do tenant:', error.response?.data || error.message);
+
+    if (error.response?.status === 401) {
+      jwtCache = { token: null, expiresAt: null };
+    }
+
+    if (res.headersSent) return res.end();
+
+    res.status(error.response?.status || 500).json({
+      error: 'Erro ao buscar logs do tenant',
+      details: error.response?.data?.message || error.message
+    });
+  }
+});
+
+// 📏 Endpoint para escalar réplicas e redimensionar recursos dos serviços de um tenant
+app.post('/api/tenants/:nome/scale', authenticateToken, requireScope('stacks:write'), validateNomeParam, requireTenantAccess, async (req, res) => {
+  try {
+    const { nome } = req.params;
+    const { tipo, aguardarConvergencia = true } = req.body || {};
+    const tenant = getTenant(nome);
+
+    if (!tenant) {
+      return res.status(404).json({ error: 'Tenant não encontrado' });
+    }
+
+    if (tenant.status === 'suspenso') {
+      return res.status(409).json({
+        error: 'Tenant suspenso',
+        message: `Reative '${nome}' com POST /api/tenants/${nome}/resume antes de alterar as stacks`
+      });
+    }
+
+    if (listJobs({ nome, status: 'executando' }).length > 0) {
+      return res.status(409).json({ error: 'Job em andamento', message: `Aguarde o job em execução de '${nome}' terminar` });
+    }
+
+    const candidates = Object.entries(tenant.servicos).filter(([nomeServico]) => getTemplate(nomeServico)?.escala);
+    const entry = selectTenantService(Object.fromEntries(candidates), tipo);
+
+    if (!entry) {
+      return res.status(400).json({
+        error: 'Serviço sem escala',
+        message: tipo
+          ? `O serviço ${tipo} de '${nome}' não permite escala`
+          : `Informe "tipo" entre: ${candidates.map(([nomeServico]) => nomeServico).join(', ') || 'nenhum serviço escalável'}`
+      });
+    }
+
+    const [tipoServico, servico] = entry;
+    const template = getTemplate(tipoServico);
+    const replicaParams = Object.keys(template.escala.replicas || {});
+    const allowed = [...replicaParams, ...(template.escala.recursos || [])];
+
+    const config = req.body.config || {};
+    const unknown = Object.keys(config).filter(param => !allowed.includes(param));
+    const requested = Object.fromEntries(allowed
+      .map(param => [param, config[param] ?? req.body[param]])
+      .filter(([, value]) => value !== undefined));
+
+    if (unknown.length > 0 || Object.keys(requested).length === 0) {
+      return res.status(400).json({
+        error: 'Parâmetros inválidos',
+        message: `Campos aceitos para ${template.nome}: ${allowed.join(', ')}`,
+        exemplo: { replicasWorker: 4, concorrenciaWorker: 20, cpusWorker: '2', memoriaWorker: '2048M' }
+      });
+    }
+
+    const storedSecrets = getTenantSecrets(nome)[tipoServico] || {};
+    const current = resolveTemplateParams(template, { config: { ...servico.config, ...storedSecrets } }).params;
+    const { params, missing, invalid } = resolveTemplateParams(template, {
+      config: { ...servico.config, ...storedSecrets, ...requested }
+    });
+
+    if (missing.length > 0 || invalid.length > 0) {
+      return res.status(400).json({
+        error: 'Parâmetros inválidos',
+        message: [...missing.map(param => `${param} é obrigatório`), ...invalid].join('; ')
+      });
+    }
 
-      const stackData = await createSingleStack(stackName, stackContent, swarmId, endpointId, headers);
+    const changed = Object.keys(requested).filter(param => params[param] !== current[param]);
+    const alteracoes = changed.map(param => ({ param, de: current[param], para: params[param] }));
 
-      return res.json({
-        success: true,
-        message: `Stack Redis '${nome}' criada com sucesso`,
-        stackId: stackData.Id,
-        stackName: stackName,
-        porta: portaFinal,
-        data: stackData
-      });
+    if (changed.length === 0) {
+      return res.json({ success: true, message: `Nenhuma alteração para '${nome}'`, alteracoes });
     }
 
-    // N8N - Cria 3 stacks separadas automaticamente com timeout de 30 segundos
-    if (tipoLower === 'n8n') {
-      // Validar configurações obrigatórias
-      if (!config.postgresHost || !config.postgresDb || !config.postgresPassword || !config.encryptionKey) {
-        return res.status(400).json({
-          error: 'Configurações obrigatórias para N8N',
-          message: 'É necessário fornecer: postgresHost, postgresDb, postgresPassword, redisHost, redisPort, redisPassword, encryptionKey',
-          exemplo: {
-            config: {
-              postgresHost: 'postgres-host',
-              postgresDb: 'n8n_db',
-              postgresPassword: 'senha-segura',
-              redisHost: 'redis-host',
-              redisPort: '6379',
-              redisPassword: 'senha-redis',
-              encryptionKey: 'sua-chave-encryption-key-segura',
-              versaoN8n: 'latest'
-            }
-          }
+    // Chaves de clientes só escalam réplicas, até o valor do plano (ou o padrão do template sem plano)
+    if (req.apiKey?.tenants) {
+      const planParams = getPlanParams(servico.plano, tipoServico) || {};
+      const blocked = changed.filter(param => !replicaParams.includes(param));
+      const exceeded = changed
+        .filter(param => replicaParams.includes(param))
+        .map(param => ({ param, limite: planParams[param] ?? template.parametros[param].padrao }))
+        .filter(({ param, limite }) => params[param] > limite);
+
+      if (blocked.length > 0 || exceeded.length > 0) {
+        return res.status(403).json({
+          error: 'Permissão insuficiente',
+          message: [
+            ...blocked.map(param => `${param} só pode ser alterado pelo operador`),
+            ...exceeded.map(({ param, limite }) => `${param} acima do limite (${servico.plano ? `plano ${servico.plano}` : 'padrão do template'}): ${limite}`)
+          ].join('; ')
         });
       }
+    }
 
-      const stacksCreated = [];
-      const errors = [];
-
-      console.log('🚀 Iniciando criação das 3 stacks do N8N (separadas)...');
+    // Só réplicas: escala direta dos serviços, sem redeploy
+    if (changed.every(param => replicaParams.includes(param))) {
+      const endpointId = servico.endpointId || PORTAINER_ENDPOINT_ID;
+      const stacks = renderTemplateStacks(template, { nome, rede: servico.rede, params, secretNames: null });
+      const headers = await getPortainerHeaders();
+      const servicos = [];
 
-      // 1️⃣ Stack Editor (separada) - com timeout de 30 segundos
-      try {
-        console.log('📝 Criando stack N8N Editor...');
-        const editorContent = getStackTemplate('n8n-editor', nome, rede, config);
-        const editorName = `n8n-editor-${nome}`;
-        
-        const result = await waitWithTimeout(
-          createSingleStack(editorName, editorContent, swarmId, endpointId, headers),
-          30000
-        );
-        
-        if (result.timeout) {
-          stacksCreated.push({ 
-            name: editorName, 
-            tipo: 'editor',
-            url: `https://editor.${nome}.${DOMAIN}`,
-            status: 'criado'
-          });
-          console.log('✅ Stack Editor enviada (tempo limite atingido, assumindo sucesso)');
-        } else {
-          stacksCreated.push({ 
-            name: editorName, 
-            id: result.Id, 
-            tipo: 'editor',
-            url: `https://editor.${nome}.${DOMAIN}`,
-            status: 'confirmado'
-          });
-          console.log('✅ Stack Editor criada com sucesso');
-        }
-      } catch (error) {
-        errors.push({ stack: 'editor', error: error.message });
-        console.error('❌ Erro ao criar stack Editor:', error.message);
-      }
+      for (const param of changed) {
+        const stack = stacks.find(item => item.papel === template.escala.replicas[param]);
+        const services = await getStackServices(stack.nome, endpointId, headers);
 
-      // 2️⃣ Stack Webhook (separada) - com timeout de 30 segundos
-      try {
-        console.log('📝 Criando stack N8N Webhook...');
-        const webhookContent = getStackTemplate('n8n-webhook', nome, rede, config);
-        const webhookName = `n8n-webhook-${nome}`;
-        
-        const result = await waitWithTimeout(
-          createSingleStack(webhookName, webhookContent, swarmId, endpointId, headers),
-          30000
-        );
-        
-        if (result.timeout) {
-          stacksCreated.push({ 
-            name: webhookName, 
-            tipo: 'webhook',
-            replicas: 2,
-            url: `https://webhook.${nome}.${DOMAIN}`,
-            status: 'criado'
+        if (services.length === 0) {
+          return res.status(404).json({
+            error: 'Serviço não encontrado',
+            message: `Nenhum serviço da stack ${stack.nome} no Swarm`,
+            servicos
           });
-          console.log('✅ Stack Webhook enviada (tempo limite atingido, assumindo sucesso)');
-        } else {
-          stacksCreated.push({ 
-            name: webhookName, 
-            id: result.Id, 
-            tipo: 'webhook',
-            replicas: 2,
-            url: `https://webhook.${nome}.${DOMAIN}`,
-            status: 'confirmado'
-          });
-          console.log('✅ Stack Webhook criada com sucesso');
         }
-      } catch (error) {
-        errors.push({ stack: 'webhook', error: error.message });
-        console.error('❌ Erro ao criar stack Webhook:', error.message);
-      }
 
-      // 3️⃣ Stack Worker (separada) - com timeout de 30 segundos
-      try {
-        console.log('📝 Criando stack N8N Worker...');
-        const workerContent = getStackTemplate('n8n-worker', nome, rede, config);
-        const workerName = `n8n-worker-${nome}`;
-        
-        const result = await waitWithTimeout(
-          createSingleStack(workerName, workerContent, swarmId, endpointId, headers),
-          30000
-        );
-        
-        if (result.timeout) {
-          stacksCreated.push({ 
-            name: workerName, 
-            tipo: 'worker',
-            concurrency: 10,
-            status: 'criado'
-          });
-          console.log('✅ Stack Worker enviada (tempo limite atingido, assumindo sucesso)');
-        } else {
-          stacksCreated.push({ 
-            name: workerName,
-            id: result.Id, 
-            tipo: 'worker',
-            concurrency: 10,
-            status: 'confirmado'
-          });
-          console.log('✅ Stack Worker criada com sucesso');
+        for (const service of services) {
+          const de = service.Spec?.Mode?.Replicated?.Replicas;
+          if (!isDryRun(req)) {
+            await scaleDockerService(service.ID, params[param], endpointId, headers);
+            addAuditResources(res, { servicos: service.Spec.Name });
+          }
+          servicos.push({ nome: service.Spec.Name, stack: stack.nome, de, para: params[param] });
         }
-      } catch (error) {
-        errors.push({ stack: 'worker', error: error.message });
-        console.error('❌ Erro ao criar stack Worker:', error.message);
       }
 
-      // Resposta final
-      if (errors.length > 0 && stacksCreated.length === 0) {
-        return res.status(500).json({
-          success: false,
-          message: 'Falha ao criar todas as stacks do N8N',
-          errors: errors
+      if (isDryRun(req)) {
+        return res.json({
+          success: true,
+          dryRun: true,
+          modo: 'escala',
+          message: `${servicos.length} serviço(s) seriam escalados; nada foi aplicado`,
+          alteracoes,
+          servicos
         });
       }
 
+      saveTenantService(nome, template.nome, {
+        rede: servico.rede,
+        endpointId: servico.endpointId,
+        config: params,
+        urls: servico.urls,
+        segredosSwarm: servico.segredosSwarm,
+        plano: servico.plano
+      });
+
       return res.json({
-        success: stacksCreated.length > 0,
-        message: `N8N '${nome}' criado com ${stacksCreated.length} de 3 stacks`,
-        stacksCriadas: stacksCreated.length,
-        totalStacks: 3,
-        stacks: stacksCreated,
-        errors: errors.length > 0 ? errors : undefined,
-        urls: {
-          editor: `https://editor.${nome}.${DOMAIN}`,
-          webhook: `https://webhook.${nome}.${DOMAIN}`
-        }
+        success: true,
+        modo: 'escala',
+        message: `${servicos.length} serviço(s) de '${nome}' escalados`,
+        alteracoes,
+        servicos
       });
     }
 
-    return res.status(400).json({
-      error: 'Tipo não suportado',
-      message: `Os tipos suportados são: redis, n8n`
+    // Concorrência e limites de recursos mudam o compose: redeploy das stacks afetadas
+    const headers = await getPortainerHeaders();
+    const changes = await planStackUpdate({ nome, template, servico, params, headers });
+    const diff = changes.map(change => ({
+      papel: change.papel,
+      nome: change.nome,
+      alterada: change.alterada,
+      diff: maskSecretValues(change.diff, getSecretValues(template, params))
+    }));
+
+    if (isDryRun(req)) {
+      return res.json({
+        success: true,
+        dryRun: true,
+        modo: 'redeploy',
+        message: `${diff.filter(item => item.alterada).length} stack(s) seriam reimplantadas; nada foi aplicado`,
+        alteracoes,
+        diff
+      });
+    }
+
+    const job = createJob('escala', nome);
+    auditJob(req, res, job);
+
+    runStackUpdateJob(job, { nome, template, servico, params, changes, aguardarConvergencia: aguardarConvergencia !== false })
+      .catch(error => console.error(`❌ Erro inesperado no job ${job.id}:`, error.message));
+
+    res.status(202).json({
+      success: true,
+      modo: 'redeploy',
+      message: `Redimensionamento de '${nome}' iniciado`,
+      jobId: job.id,
+      status: job.status,
+      acompanhar: `/api/jobs/${job.id}`,
+      alteracoes,
+      diff
     });
 
   } catch (error) {
-    console.error('❌ Erro ao criar stack');
-    
+    console.error('❌ Erro ao escalar tenant:', error.response?.data || error.message);
+
     if (error.response?.status === 401) {
-      console.log('🔄 Token expirado, limpando cache...');
       jwtCache = { token: null, expiresAt: null };
     }
 
-    if (error.response) {
-      console.error('Status:', error.response.status);
-      console.error('Body da resposta:', JSON.stringify(error.response.data, null, 2));
-    } else {
-      console.error('Erro sem resposta do servidor:', error.message);
-    }
-
     res.status(error.response?.status || 500).json({
-      error: 'Erro ao criar stack',
-      details: error.response?.data || error.message
+      error: 'Erro ao escalar tenant',
+      details: error.response?.data?.message || error.message
     });
   }
 });
 
-// ☁️ Endpoint para criar subdomínio na Cloudflare
-app.post('/api/cloudflare', authenticateToken, async (req, res) => {
+// 🔄 Endpoint para reiniciar os serviços de um tenant (todos ou só os de um papel)
+app.post('/api/tenants/:nome/restart', authenticateToken, requireScope('stacks:write'), validateNomeParam, requireTenantAccess, async (req, res) => {
   try {
-    const { nome, tipo, ipServidor, content, proxied } = req.body;
+    const { nome } = req.params;
+    const { role } = req.body || {};
+    const tenant = getTenant(nome);
 
-    if (!nome || !tipo) {
-      return res.status(400).json({ 
-        error: 'Campos obrigatórios: nome, tipo',
-        exemplos: {
-          A: {
-            nome: 'redis-app1',
-            tipo: 'A',
-            ipServidor: '1.2.3.4',
-            proxied: true
-          },
-          CNAME: {
-            nome: 'redis-app1',
-            tipo: 'CNAME',
-            ipServidor: 'new.hostexpert.com.br',
-            proxied: false
-          }
-        }
-      });
+    if (!tenant) {
+      return res.status(404).json({ error: 'Tenant não encontrado' });
     }
 
-    const targetValue = ipServidor || content;
-
-    if (!targetValue) {
-      return res.status(400).json({ 
-        error: 'Campo obrigatório: ipServidor ou content',
-        message: 'Informe o IP (tipo A/AAAA) ou domínio (tipo CNAME) para apontar o DNS'
+    if (tenant.status === 'suspenso') {
+      return res.status(409).json({
+        error: 'Tenant suspenso',
+        message: `'${nome}' está suspenso e não tem serviços rodando`
       });
     }
 
-    const tiposPermitidos = ['A', 'AAAA', 'CNAME'];
-    const tipoUpper = tipo.toUpperCase();
-    
-    if (!tiposPermitidos.includes(tipoUpper)) {
+    const stacks = getTenantStacks(tenant);
+    const selected = role ? stacks.filter(stack => stack.papel === role) : stacks;
+
+    if (selected.length === 0) {
       return res.status(400).json({
-        error: 'Tipo de registro inválido',
-        message: `Tipos permitidos: ${tiposPermitidos.join(', ')}`
+        error: 'role inválido',
+        message: `Papéis de '${nome}': ${stacks.map(stack => stack.papel).join(', ')}`
       });
     }
 
-    let proxiedValue;
-    if (proxied !== undefined) {
-      proxiedValue = Boolean(proxied);
-    } else {
-      proxiedValue = tipoUpper !== 'CNAME';
-    }
+    const headers = await getPortainerHeaders();
+    const reiniciados = [];
+    const falhas = [];
 
-    if (tipoUpper === 'CNAME') {
-      const cleanTarget = targetValue.replace(/^https?:\/\//, '');
-      const record = await createCloudflareRecord(nome, tipoUpper, cleanTarget, proxiedValue);
-      
-      res.json({
-        success: true,
-        message: `Subdomínio '${nome}.${CLOUDFLARE_DOMAIN}' criado/atualizado com sucesso`,
-        subdomain: `${nome}.${CLOUDFLARE_DOMAIN}`,
-        target: cleanTarget,
-        proxied: proxiedValue,
-        recordId: record.id,
-        data: record
-      });
-    } else {
-      const record = await createCloudflareRecord(nome, tipoUpper, targetValue, proxiedValue);
-      
-      res.json({
-        success: true,
-        message: `Subdomínio '${nome}.${CLOUDFLARE_DOMAIN}' criado/atualizado com sucesso`,
-        subdomain: `${nome}.${CLOUDFLARE_DOMAIN}`,
-        ip: targetValue,
-        proxied: proxiedValue,
-        recordId: record.id,
-        data: record
-      });
+    for (const stack of selected) {
+      const services = await getStackServices(stack.nome, stack.endpointId, headers);
+
+      for (const service of services) {
+        try {
+          await restartDockerService(service.ID, stack.endpointId, headers);
+          reiniciados.push({ servico: service.Spec.Name, papel: stack.papel });
+          addAuditResources(res, { servicos: service.Spec.Name });
+        } catch (error) {
+          console.error(`❌ Erro ao reiniciar ${service.Spec.Name}:`, error.response?.data || error.message);
+          falhas.push({ servico: service.Spec.Name, papel: stack.papel, error: error.response?.data?.message || error.message });
+        }
+      }
     }
 
-  } catch (error) {
-    console.error('❌ Erro ao criar subdomínio na Cloudflare');
-    if (error.response) {
-      console.error('Status:', error.response.status);
-      console.error('Body da resposta:', JSON.stringify(error.response.data, null, 2));
-    } else {
-      console.error('Erro:', error.message);
+    if (reiniciados.length === 0 && falhas.length === 0) {
+      return res.status(404).json({ error: 'Serviço não encontrado', message: `Nenhum serviço de '${nome}' no Swarm` });
     }
 
+    res.status(falhas.length > 0 ? 207 : 200).json({
+      success: falhas.length === 0,
+      message: falhas.length === 0
+        ? `${reiniciados.length} serviço(s) de '${nome}' reiniciado(s)`
+        : `Reinício parcial de '${nome}': ${falhas.length} falha(s)`,
+      reiniciados,
+      falhas
+    });
+  } catch (error) {
+    console.error('❌ Erro ao reiniciar tenant:', error.response?.data || error.message);
     res.status(error.response?.status || 500).json({
-      error: 'Erro ao criar subdomínio na Cloudflare',
+      error: 'Erro ao reiniciar tenant',
       details: error.response?.data || error.message
     });
   }
 });
 
-// 🚇 Endpoint para adicionar hostname ao túnel Cloudflare
-app.post('/api/cloudflare/tunnel', authenticateToken, async (req, res) => {
+// ⏸️ Endpoint para suspender um tenant (serviços com 0 réplicas, volumes e configuração mantidos)
+app.post('/api/tenants/:nome/suspend', authenticateToken, requireScope('stacks:write'), denyTenantBoundKeys, validateNomeParam, (req, res) => {
   try {
-    const { hostname, service, port = 80, protocol = 'http' } = req.body;
+    const { nome } = req.params;
+    const { paginaSuspensa = false } = req.body || {};
+    const tenant = getTenant(nome);
 
-    if (!hostname || !service) {
-      return res.status(400).json({ 
-        error: 'Campos obrigatórios: hostname, service',
-        exemplos: {
-          'N8N Editor': {
-            hostname: 'editor.cliente1',
-            service: 'http://n8n_editor_cliente1:5678',
-            description: `Será criado: editor.cliente1.${DOMAIN}`
-          },
-          'N8N Webhook': {
-            hostname: 'webhook.cliente1',
-            service: 'http://n8n_webhook_cliente1:5678',
-            description: `Será criado: webhook.cliente1.${DOMAIN}`
-          },
-          'Redis': {
-            hostname: 'redis-app1',
-            service: 'tcp://redis-app1:6379',
-            description: `Será criado: redis-app1.${DOMAIN}`
-          },
-          'Com porta customizada': {
-            hostname: 'app',
-            service: 'myservice',
-            port: 8080,
-            protocol: 'http',
-            description: `Será criado: app.${DOMAIN}`
-          }
-        }
+    if (!tenant) {
+      return res.status(404).json({ error: 'Tenant não encontrado' });
+    }
+
+    if (tenant.status === 'suspenso') {
+      return res.status(409).json({
+        error: 'Tenant já suspenso',
+        message: `'${nome}' está suspenso desde ${tenant.suspensao?.suspensoEm}`
       });
     }
 
-    // Adiciona o DOMAIN ao hostname se não estiver presente
-    const fullHostname = hostname.includes('.') && hostname.split('.').length > 2 
-      ? hostname 
-      : `${hostname}.${DOMAIN}`;
+    if (listJobs({ nome, status: 'executando' }).length > 0) {
+      return res.status(409).json({ error: 'Job em andamento', message: `Aguarde o job em execução de '${nome}' terminar` });
+    }
 
-    // Se o service não contém protocolo, adiciona automaticamente
-    let serviceUrl = service;
-    if (!service.includes('://')) {
-      serviceUrl = `${protocol}://${service}:${port}`;
+    if (paginaSuspensa === true && !SUSPENDED_SERVICE_URL) {
+      return res.status(400).json({
+        error: 'Página de suspensão não configurada',
+        message: 'Defina SUSPENDED_SERVICE_URL para usar paginaSuspensa: true'
+      });
     }
 
-    const result = await addHostnameToTunnel(fullHostname, serviceUrl);
+    const job = createJob('suspensao', nome);
+    auditJob(req, res, job);
 
-    res.json({
+    runSuspendJob(job, { nome, tenant, paginaSuspensa: paginaSuspensa === true })
+      .catch(error => console.error(`❌ Erro inesperado no job ${job.id}:`, error.message));
+
+    res.status(202).json({
       success: true,
-      message: `Hostname '${fullHostname}' adicionado ao túnel com sucesso`,
-      hostname: fullHostname,
-      hostnameInformado: hostname,
-      service: serviceUrl,
-      tunnelId: result.tunnelId,
-      data: result
+      message: `Suspensão de '${nome}' iniciada`,
+      jobId: job.id,
+      status: job.status,
+      acompanhar: `/api/jobs/${job.id}`
     });
 
   } catch (error) {
-    console.error('❌ Erro ao adicionar hostname ao túnel');
-    if (error.response) {
-      console.error('Status:', error.response.status);
-      console.error('Body da resposta:', JSON.stringify(error.response.data, null, 2));
-    } else {
-      console.error('Erro:', error.message);
+    console.error('❌ Erro ao suspender tenant:', error.message);
+    res.status(500).json({
+      error: 'Erro ao suspender tenant',
+      details: error.message
+    });
+  }
+});
+
+// ▶️ Endpoint para reativar um tenant suspenso com as réplicas anteriores
+app.post('/api/tenants/:nome/resume', authenticateToken, requireScope('stacks:write'), denyTenantBoundKeys, validateNomeParam, (req, res) => {
+  try {
+    const { nome } = req.params;
+    const tenant = getTenant(nome);
+
+    if (!tenant) {
+      return res.status(404).json({ error: 'Tenant não encontrado' });
     }
 
-    res.status(error.response?.status || 500).json({
-      error: 'Erro ao adicionar hostname ao túnel Cloudflare',
-      details: error.response?.data || error.message
+    if (tenant.status !== 'suspenso' || !tenant.suspensao) {
+      return res.status(409).json({ error: 'Tenant não está suspenso', message: `'${nome}' está ${tenant.status}` });
+    }
+
+    if (listJobs({ nome, status: 'executando' }).length > 0) {
+      return res.status(409).json({ error: 'Job em andamento', message: `Aguarde o job em execução de '${nome}' terminar` });
+    }
+
+    const job = createJob('reativacao', nome);
+    auditJob(req, res, job);
+
+    runResumeJob(job, { nome, suspensao: tenant.suspensao })
+      .catch(error => console.error(`❌ Erro inesperado no job ${job.id}:`, error.message));
+
+    res.status(202).json({
+      success: true,
+      message: `Reativação de '${nome}' iniciada`,
+      jobId: job.id,
+      status: job.status,
+      acompanhar: `/api/jobs/${job.id}`
+    });
+
+  } catch (error) {
+    console.error('❌ Erro ao reativar tenant:', error.message);
+    res.status(500).json({
+      error: 'Erro ao reativar tenant',
+      details: error.message
     });
   }
 });
 
-// Endpoint para listar stacks
-app.get('/api/stacks', authenticateToken, async (req, res) => {
+// 🔐 Endpoint para rotacionar secrets do Swarm de um tenant
+app.post('/api/tenants/:nome/rotate-secrets', authenticateToken, requireScope('stacks:write'), denyTenantBoundKeys, validateNomeParam, (req, res) => {
   try {
-    const headers = await getPortainerHeaders();
-    
-    const response = await axios.get(`${PORTAINER_URL}/api/stacks`, {
-      headers,
-      httpsAgent
+    const { nome } = req.params;
+    const { tipo, segredos } = req.body || {};
+    const tenant = getTenant(nome);
+
+    if (!tenant) {
+      return res.status(404).json({ error: 'Tenant não encontrado' });
+    }
+
+    if (tenant.status === 'suspenso') {
+      return res.status(409).json({
+        error: 'Tenant suspenso',
+        message: `Reative '${nome}' com POST /api/tenants/${nome}/resume antes de alterar as stacks`
+      });
+    }
+
+    if (listJobs({ nome, status: 'executando' }).length > 0) {
+      return res.status(409).json({ error: 'Job em andamento', message: `Aguarde o job em execução de '${nome}' terminar` });
+    }
+
+    const candidates = Object.entries(tenant.servicos).filter(([, servico]) => servico.segredosSwarm);
+    const entry = selectTenantService(Object.fromEntries(candidates), tipo);
+
+    if (!entry) {
+      return res.status(400).json({
+        error: 'Serviço sem secrets do Swarm',
+        message: tipo
+          ? `O serviço ${tipo} de '${nome}' não foi criado com segredosSwarm: true`
+          : `Informe "tipo" entre: ${candidates.map(([nomeServico]) => nomeServico).join(', ') || 'nenhum serviço com segredosSwarm'}`
+      });
+    }
+
+    const [tipoServico, servico] = entry;
+    const template = getTemplate(tipoServico);
+
+    if (!template) {
+      return res.status(400).json({ error: 'Tipo não suportado', message: `Template ${tipoServico} não está carregado` });
+    }
+
+    if (!segredos || typeof segredos !== 'object' || Array.isArray(segredos) || Object.keys(segredos).length === 0) {
+      return res.status(400).json({
+        error: 'Campo obrigatório: segredos',
+        message: `Parâmetros rotacionáveis: ${Object.keys(template.segredosSwarm).join(', ')}`,
+        exemplo: { segredos: { postgresPassword: 'nova-senha', redisPassword: null } }
+      });
+    }
+
+    const unknown = Object.keys(segredos).filter(param => !template.segredosSwarm[param]);
+    if (unknown.length > 0) {
+      return res.status(400).json({
+        error: 'Parâmetros inválidos',
+        message: `Não rotacionáveis: ${unknown.join(', ')}. Use: ${Object.keys(template.segredosSwarm).join(', ')}`
+      });
+    }
+
+    // Valor vazio gera um segredo novo quando o parâmetro aceita gerar: true
+    const parametros = Object.fromEntries(Object.keys(segredos).map(param => [
+      param,
+      { ...template.parametros[param], padrao: undefined, obrigatorio: !template.parametros[param].gerar }
+    ]));
+    const { params: novosValores, missing, invalid, generated } = resolveTemplateParams({ parametros }, { config: segredos });
+
+    if (missing.length > 0 || invalid.length > 0) {
+      return res.status(400).json({
+        error: 'Parâmetros inválidos',
+        message: [...missing.map(param => `${param} precisa de um valor novo`), ...invalid].join('; ')
+      });
+    }
+
+    const job = createJob('rotacao', nome);
+    auditJob(req, res, job);
+
+    runSecretRotationJob(job, { nome, template, servico, novosValores })
+      .catch(error => console.error(`❌ Erro inesperado no job ${job.id}:`, error.message));
+
+    res.status(202).json({
+      success: true,
+      message: `Rotação de ${Object.keys(novosValores).join(', ')} de '${nome}' iniciada`,
+      jobId: job.id,
+      status: job.status,
+      acompanhar: `/api/jobs/${job.id}`,
+      segredosGerados: generated.length > 0
+        ? Object.fromEntries(generated.map(name => [name, novosValores[name]]))
+        : undefined
     });
 
-    res.json({ success: true, stacks: response.data });
   } catch (error) {
-    console.error('Erro ao listar stacks:', error.response?.data || error.message);
-    
-    if (error.response?.status === 401) {
-      jwtCache = { token: null, expiresAt: null };
-    }
+    console.error('❌ Erro ao rotacionar secrets:', error.message);
 
-    res.status(error.response?.status || 500).json({
-      error: 'Erro ao listar stacks',
-      details: error.response?.data || error.message
+    res.status(500).json({
+      error: 'Erro ao rotacionar secrets',
+      details: error.message
     });
   }
 });
@@ -1011,37 +5708,60 @@ app.get('/health', (req, res) => {
   });
 });
 
-// Listar tipos
+// 📈 Endpoint de métricas no formato do Prometheus
+app.get('/metrics', authenticateToken, requireScope('stacks:read'), denyTenantBoundKeys, (req, res) => {
+  res.set('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.send(renderMetrics());
+});
+
+// 🧠 Endpoint para recarregar os templates sem reiniciar a API
+app.post('/api/templates/reload', authenticateToken, requireScope('admin'), (req, res) => {
+  try {
+    const result = loadTemplates();
+    // Planos são validados contra os templates, então recarregam junto
+    const plans = loadPlans();
+    const errors = [...result.errors, ...plans.errors];
+
+    res.status(errors.length > 0 ? 207 : 200).json({
+      success: errors.length === 0,
+      message: `${result.templates.length} template(s) e ${plans.planos.length} plano(s) carregado(s)`,
+      templates: result.templates,
+      planos: plans.planos,
+      errors: errors.length > 0 ? errors : undefined
+    });
+  } catch (error) {
+    console.error('❌ Erro ao recarregar templates:', error.message);
+    res.status(500).json({
+      error: 'Erro ao recarregar templates',
+      details: error.message
+    });
+  }
+});
+
+// 🏷️ Endpoint para listar os planos de serviço e os valores que cada um aplica
+app.get('/api/planos', authenticateToken, requireScope('stacks:read'), (req, res) => {
+  res.json({
+    success: true,
+    planos: Object.fromEntries([...planRegistry.entries()].map(([nome, plan]) => [nome, {
+      descricao: plan.descricao,
+      templates: Object.fromEntries(Object.entries(plan).filter(([tipo]) => tipo !== 'descricao'))
+    }]))
+  });
+});
+
+// Listar tipos (gerado a partir do registro de templates)
 app.get('/api/tipos', (req, res) => {
   res.json({
     servicos: {
-      redis: {
-        endpoint: '/api/stack',
-        exemplo: {
-          nome: 'meu-app',
-          tipo: 'redis',
-          rede: 'network_public',
-          porta: 6379
-        }
-      },
-      n8n: {
+      ...Object.fromEntries(listTemplates().map(template => [template.nome, {
         endpoint: '/api/stack',
-        exemplo: {
-          nome: 'cliente1',
-          tipo: 'n8n',
-          rede: 'network_public',
-          config: {
-            postgresHost: 'postgres-host',
-            postgresDb: 'n8n_db',
-            postgresPassword: 'senha-segura',
-            redisHost: 'redis-host',
-            redisPort: '6379',
-            redisPassword: 'senha-redis',
-            versaoN8n: 'latest'
-          }
-        },
-        observacao: 'Cria 3 stacks separadas automaticamente: n8n-editor-{nome}, n8n-webhook-{nome}, n8n-worker-{nome}. Timeout de 30 segundos por stack.'
-      },
+        descricao: template.descricao,
+        parametros: template.parametros || {},
+        stacks: template.stacks.map(stack => ({ papel: stack.papel, nome: stack.nome })),
+        planos: listPlansForTemplate(template.nome),
+        exemplo: template.exemplo,
+        observacao: template.observacao
+      }])),
       cloudflare_dns: {
         endpoint: '/api/cloudflare',
         exemplos: {
@@ -1078,7 +5798,7 @@ app.get('/api/tipos', (req, res) => {
 });
 
 // Status da autenticação
-app.get('/api/auth/status', authenticateToken, (req, res) => {
+app.get('/api/auth/status', authenticateToken, requireScope('admin'), (req, res) => {
   res.json({
     authenticated: !!jwtCache.token,
     expiresAt: jwtCache.expiresAt ? new Date(jwtCache.expiresAt).toISOString() : null,
@@ -1087,7 +5807,7 @@ app.get('/api/auth/status', authenticateToken, (req, res) => {
 });
 
 // Forçar reautenticação
-app.post('/api/auth/refresh', authenticateToken, async (req, res) => {
+app.post('/api/auth/refresh', authenticateToken, requireScope('admin'), async (req, res) => {
   try {
     jwtCache = { token: null, expiresAt: null };
     const jwt = await authenticatePortainer();
@@ -1113,8 +5833,26 @@ const startServer = async () => {
       process.exit(1);
     }
 
+    if (!isAuthConfigured() && !ALLOW_UNAUTHENTICATED) {
+      console.error('❌ ERRO: nenhuma autenticação configurada! Defina AUTH_TOKEN (ou crie chaves em /api/keys) ou use ALLOW_UNAUTHENTICATED=true');
+      process.exit(1);
+    }
+
     await authenticatePortainer();
 
+    loadTemplates();
+    loadPlans();
+
+    const interruptedJobs = markInterruptedJobs();
+    if (interruptedJobs > 0) {
+      console.log(`⚠️ ${interruptedJobs} job(s) marcados como interrompidos (reinício da API)`);
+    }
+
+    // Reenvio periódico das entregas de webhook pendentes (inclusive as de antes do reinício)
+    setInterval(() => {
+      processWebhookQueue().catch(error => console.error('❌ Erro ao processar webhooks:', error.message));
+    }, Math.min(WEBHOOK_RETRY_BASE_MS, 30000));
+
     app.listen(PORT, () => {
       console.log(`\n🌀 version: 3.2.0`);
       console.log(`🚀 API rodando na porta ${PORT}`);
@@ -1124,7 +5862,9 @@ const startServer = async () => {
       console.log(`🌐 Endpoint ID padrão: ${PORTAINER_ENDPOINT_ID}`);
       console.log(`🐳 Modo Docker: ${process.env.DOCKER_ENV || false}`);
       console.log(`🔐 Auth Token API: ${AUTH_TOKEN ? '✅' : '❌'}`);
+      console.log(`🔑 Chaves de API: ${countApiKeys()}${ALLOW_UNAUTHENTICATED && !isAuthConfigured() ? ' (⚠️ acesso sem autenticação liberado)' : ''}`);
       console.log(`🌍 Domínio principal: ${DOMAIN || 'Não configurado'}`);
+      console.log(`💾 Dados locais: ${path.resolve(DATA_DIR)}`);
 
       console.log(`\n☁️ Cloudflare:`);
       console.log(`   Token: ${CLOUDFLARE_API_TOKEN ? '✅' : '❌'}`);
@@ -1135,18 +5875,57 @@ const startServer = async () => {
 
       console.log(`\n📝 Endpoints disponíveis:`);
       console.log(`   POST   /api/stack - Criar stack Redis ou N8N (3 stacks separadas)`);
-      console.log(`   POST   /api/cloudflare - Criar subdomínio na Cloudflare (DNS)`);
+      console.log(`   GET    /api/stack/:nome/status - Convergência dos serviços de um tenant`);
+      console.log(`   PATCH  /api/stack/:nome - Alterar config e reimplantar as stacks de um tenant`);
+      console.log(`   DELETE /api/stack/:nome - Remover stacks, túnel, DNS e volume (opcional) de um tenant`);
+      console.log(`   GET    /api/tenants - Listar tenants registrados`);
+      console.log(`   GET    /api/tenants/:nome - Detalhes de um tenant`);
+      console.log(`   GET    /api/tenants/:nome/logs - Logs dos serviços de um tenant (follow=true para SSE)`);
+      console.log(`   POST   /api/tenants/:nome/scale - Escalar réplicas e recursos de um tenant`);
+      console.log(`   POST   /api/tenants/:nome/restart - Reiniciar serviços de um tenant`);
+      console.log(`   POST   /api/tenants/:nome/suspend - Suspender tenant (0 réplicas)`);
+      console.log(`   POST   /api/tenants/:nome/resume - Reativar tenant suspenso`);
+      console.log(`   POST   /api/tenants/:nome/rotate-secrets - Rotacionar secrets do Swarm de um tenant`);
+      console.log(`   GET    /api/audit - Auditoria das operações que alteram recursos`);
+      console.log(`   GET    /api/jobs - Listar jobs de provisionamento`);
+      console.log(`   GET    /api/jobs/:id - Consultar job de provisionamento`);
+      console.log(`   POST   /api/campanhas - Campanha de atualização de versão do n8n (canário + lotes)`);
+      console.log(`   GET    /api/campanhas - Listar campanhas`);
+      console.log(`   GET    /api/campanhas/:id - Progresso de uma campanha`);
+      console.log(`   POST   /api/keys - Criar chave de API com escopos`);
+      console.log(`   GET    /api/keys - Listar chaves de API`);
+      console.log(`   DELETE /api/keys/:id - Revogar chave de API`);
+      console.log(`   POST   /api/webhooks - Cadastrar webhook de eventos`);
+      console.log(`   GET    /api/webhooks - Listar webhooks`);
+      console.log(`   DELETE /api/webhooks/:id - Remover webhook`);
+      console.log(`   GET    /api/webhooks/:id/entregas - Log de entregas de um webhook`);
+      console.log(`   POST   /api/cloudflare - Criar registro DNS na Cloudflare (A, AAAA, CNAME, TXT, MX, SRV)`);
+      console.log(`   GET    /api/cloudflare/records - Listar registros DNS da zona`);
+      console.log(`   DELETE /api/cloudflare/:nome - Remover registros DNS de um nome`);
       console.log(`   POST   /api/cloudflare/tunnel - Adicionar hostname ao túnel Cloudflare`);
+      console.log(`   GET    /api/cloudflare/tunnel - Listar regras do túnel`);
+      console.log(`   PATCH  /api/cloudflare/tunnel/:hostname - Alterar service, originRequest ou posição de um hostname`);
+      console.log(`   DELETE /api/cloudflare/tunnel/:hostname - Remover hostname do túnel`);
       console.log(`   GET    /api/stacks - Listar stacks`);
       console.log(`   GET    /api/tipos - Listar serviços disponíveis`);
+      console.log(`   GET    /api/planos - Listar planos de serviço`);
+      console.log(`   POST   /api/templates/reload - Recarregar templates de ${TEMPLATES_DIR}`);
       console.log(`   GET    /api/auth/status - Status da autenticação`);
       console.log(`   POST   /api/auth/refresh - Renovar autenticação`);
       console.log(`   GET    /health - Health check`);
+      console.log(`   GET    /metrics - Métricas Prometheus`);
 
       console.log(`\n🎯 Tipos de stack suportados:`);
-      console.log(`   - redis: Stack Redis standalone com Traefik`);
-      console.log(`   - n8n: Cria 3 stacks separadas (editor, webhook, worker) com Traefik`);
-      console.log(`   - ⏱️  Timeout: 30 segundos por stack N8N`);
+      listTemplates().forEach(template => {
+        console.log(`   - ${template.nome}: ${template.descricao || template.arquivo}`);
+      });
+      console.log(`   - 📋 Provisionamento em segundo plano (acompanhe em /api/jobs/:id)`);
+      console.log(`   - 🔍 dryRun: true retorna o plano sem aplicar nada`);
+      console.log(`   - ↩️ transacional: true desfaz tudo se alguma etapa falhar`);
+      console.log(`   - 🚇 publicar: true cadastra túnel e DNS dos hostnames do template`);
+      console.log(`   - 🧱 Redes e volumes externos verificados antes do deploy (criarRede: true cria a rede)`);
+      console.log(`   - 🔐 segredosSwarm: true guarda credenciais como secrets do Swarm`);
+      console.log(`   - 🏷️ plano: ${[...planRegistry.keys()].join(', ') || 'nenhum plano carregado'}`);
       console.log(`   - 🔀 Traefik: Labels configuradas automaticamente`);
 
       console.log(`\n🚇 Cloudflare Tunnel:`);